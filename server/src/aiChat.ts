@@ -0,0 +1,155 @@
+import { RequestHandler, Router } from 'express'
+import { pipeline, Readable } from 'node:stream'
+import type { ReadableStream } from 'node:stream/web'
+import { config } from './config.js'
+import { createRateLimiter } from './rateLimit.js'
+import { applyTutorPrompt, ChatMessage, getTutorMode, HINT_LEVELS, recordAIHelp } from './tutor.js'
+import { isDocumentId } from './validate.js'
+import { createUsageMeter, recordUsage, requireAIQuota } from './usage.js'
+
+const MINUTE_MS = 60 * 1000
+
+// Editor ghost text only needs a few lines
+const COMPLETION_MAX_TOKENS = 256
+
+const ROLES = ['system', 'user', 'assistant']
+
+const isChatMessage = (value: unknown): value is ChatMessage =>
+  typeof value === 'object' && value !== null
+  && ROLES.includes((value as ChatMessage).role)
+  && typeof (value as ChatMessage).content === 'string'
+
+interface StreamHandlerOptions {
+  maxTokens: number
+  // 'completion' for editor ghost text, which tutor mode turns off
+  kind: 'chat' | 'completion'
+}
+
+// Streams the upstream OpenAI-compatible server's server-sent events back
+// unchanged and records the tokens used once the response ends
+const createStreamHandler = ({ maxTokens, kind }: StreamHandlerOptions): RequestHandler => async (req, res) => {
+  const { model, messages, temperature, max_tokens, problem_id, hint_level } = req.body ?? {}
+  if (
+    typeof model !== 'string' || typeof problem_id !== 'string'
+    || !Array.isArray(messages) || !messages.every(isChatMessage)
+  ) {
+    res.status(400).json({ error: 'Expected { model, problem_id, messages: [{ role, content }] }' })
+    return
+  }
+  if (!isDocumentId(problem_id)) {
+    res.status(400).json({ error: 'Invalid problem_id' })
+    return
+  }
+  if (max_tokens !== undefined && !(Number.isInteger(max_tokens) && max_tokens > 0)) {
+    res.status(400).json({ error: 'max_tokens must be a positive whole number' })
+    return
+  }
+  // The range OpenAI accepts
+  if (temperature !== undefined && !(typeof temperature === 'number' && temperature >= 0 && temperature <= 2)) {
+    res.status(400).json({ error: 'temperature must be a number from 0 to 2' })
+    return
+  }
+  if (hint_level !== undefined && !(Number.isInteger(hint_level) && hint_level >= 1 && hint_level <= HINT_LEVELS)) {
+    res.status(400).json({ error: `hint_level must be a whole number from 1 to ${HINT_LEVELS}` })
+    return
+  }
+  // Requests go out on the server's key, so clients can't pick arbitrary models
+  if (!Object.hasOwn(config.llm.pricing, model)) {
+    res.status(400).json({ error: `Model ${model} is not available` })
+    return
+  }
+
+  const uid: string = res.locals.uid
+
+  // Stop generating (and paying for) tokens once the browser hangs up
+  const upstreamAbort = new AbortController()
+  res.on('close', () => upstreamAbort.abort())
+
+  try {
+    // Decided here rather than trusting the client's system prompt
+    const tutorMode = await getTutorMode(uid, problem_id)
+    if (tutorMode === null) {
+      res.status(404).json({ error: 'Problem not found' })
+      return
+    }
+    if (tutorMode && kind === 'completion') {
+      res.status(403).json({ error: 'Inline completions are off in tutor mode' })
+      return
+    }
+    const sent: ChatMessage[] = messages.map(({ role, content }: ChatMessage) => ({ role, content }))
+    const prompt = tutorMode ? applyTutorPrompt(sent) : sent
+    const upstream = await fetch(`${config.llm.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.llm.apiKey ? { 'Authorization': `Bearer ${config.llm.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: prompt,
+        temperature,
+        // Capped at LLM_MAX_TOKENS, or less for completions
+        max_tokens: Math.min(max_tokens ?? maxTokens, maxTokens),
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+      signal: upstreamAbort.signal,
+    })
+    if (!upstream.ok || !upstream.body) {
+      console.error('AI request failed:', upstream.status, await upstream.text())
+      res.status(502).json({ error: `AI service returned ${upstream.status}` })
+      return
+    }
+    if (kind === 'chat') {
+      recordAIHelp(uid, problem_id, hint_level)
+        .catch(recordError => console.error('Error recording AI help:', recordError))
+    }
+    res.setHeader('Content-Type', 'text/event-stream')
+    res.setHeader('Cache-Control', 'no-cache')
+    const meter = createUsageMeter(prompt.map(({ content }) => content).join('\n'))
+    // pipeline handles errors on both ends: when the browser hangs up, the
+    // aborted upstream errors and is cleaned up instead of crashing the server
+    pipeline(
+      Readable.fromWeb(upstream.body as ReadableStream),
+      async function* (chunks: AsyncIterable<Uint8Array>) {
+        for await (const chunk of chunks) {
+          meter.write(chunk)
+          yield chunk
+        }
+      },
+      res,
+      error => {
+        if (error && !upstreamAbort.signal.aborted) console.error('Error streaming AI reply:', error)
+        // Stopped replies count too, up to where they were cut off
+        recordUsage(uid, model, meter.usage())
+          .catch(recordError => console.error('Error recording AI usage:', recordError))
+      }
+    )
+  } catch (error) {
+    if (upstreamAbort.signal.aborted) return
+    console.error('Error calling AI service:', error)
+    res.status(502).json({ error: 'AI service unavailable' })
+  }
+}
+
+export const aiChatRouter = Router()
+
+// Each route has its own rate limit, so typing with inline completions on
+// doesn't lock the user out of the chat; both count towards the token quota
+
+// POST /ai/chat { model, problem_id, messages, temperature, max_tokens, hint_level }.
+// hint_level is the rung of the hint ladder a hint request climbs to.
+aiChatRouter.post(
+  '/chat',
+  createRateLimiter({ limit: config.rateLimits.ai, windowMs: MINUTE_MS }),
+  requireAIQuota,
+  createStreamHandler({ maxTokens: config.llm.maxTokens, kind: 'chat' })
+)
+
+// POST /ai/complete, the same for editor completions
+aiChatRouter.post(
+  '/complete',
+  createRateLimiter({ limit: config.rateLimits.completion, windowMs: MINUTE_MS }),
+  requireAIQuota,
+  createStreamHandler({ maxTokens: Math.min(COMPLETION_MAX_TOKENS, config.llm.maxTokens), kind: 'completion' })
+)
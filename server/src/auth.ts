@@ -0,0 +1,38 @@
+import { RequestHandler } from 'express'
+import { initializeApp } from 'firebase-admin/app'
+import { getAuth } from 'firebase-admin/auth'
+import { getFirestore } from 'firebase-admin/firestore'
+import { config } from './config.js'
+
+// Uses application default credentials, or the Auth emulator when
+// FIREBASE_AUTH_EMULATOR_HOST is set
+initializeApp({ projectId: config.firebaseProjectId })
+
+export type Role = 'student' | 'mentor' | 'admin'
+
+const ROLES: Role[] = ['student', 'mentor', 'admin']
+
+// Users without a role field are students, as in firestore.rules
+export const getUserRole = async (uid: string): Promise<Role> => {
+  const snapshot = await getFirestore().doc(`users/${uid}`).get()
+  const role = snapshot.get('role')
+  return ROLES.includes(role) ? role : 'student'
+}
+
+// Rejects requests without a valid Firebase ID token and exposes the
+// caller's uid as res.locals.uid
+export const requireUser: RequestHandler = async (req, res, next) => {
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1]
+  if (!token) {
+    res.status(401).json({ error: 'Missing ID token' })
+    return
+  }
+  try {
+    const decoded = await getAuth().verifyIdToken(token)
+    res.locals.uid = decoded.uid
+    next()
+  } catch (error) {
+    console.error('Error verifying ID token:', error)
+    res.status(401).json({ error: 'Invalid or expired ID token' })
+  }
+}
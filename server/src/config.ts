@@ -0,0 +1,83 @@
+// Everything secret lives here and never reaches the browser bundle
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = process.env[name]
+  return value ? Number(value) : fallback
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+// List prices for the client's default models; LLM_PRICING overrides them.
+// Only priced models are served, so every request has a known cost.
+const DEFAULT_PRICING: Record<string, ModelPrice> = {
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+}
+
+const isModelPrice = (value: unknown): value is ModelPrice =>
+  typeof value === 'object' && value !== null
+  && typeof (value as ModelPrice).input === 'number'
+  && typeof (value as ModelPrice).output === 'number'
+
+const pricingFromEnv = (): Record<string, ModelPrice> => {
+  const value = process.env.LLM_PRICING
+  if (!value) return DEFAULT_PRICING
+  const parsed: unknown = JSON.parse(value)
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed) || !Object.values(parsed).every(isModelPrice)) {
+    throw new Error('LLM_PRICING must be a JSON object of { "<model>": { "input": <USD>, "output": <USD> } }')
+  }
+  return parsed as Record<string, ModelPrice>
+}
+
+export const config = {
+  port: numberFromEnv('PORT', 8787),
+  // Comma-separated origins allowed to call the API
+  allowedOrigins: (process.env.ALLOWED_ORIGINS || 'http://localhost:3000').split(',').map(origin => origin.trim()),
+  firebaseProjectId: process.env.FIREBASE_PROJECT_ID,
+
+  judge0: {
+    // Judge0 CE on RapidAPI unless JUDGE0_BASE_URL points at a self-hosted instance
+    baseUrl: process.env.JUDGE0_BASE_URL,
+    rapidApiKey: process.env.JUDGE0_RAPIDAPI_KEY,
+    authToken: process.env.JUDGE0_AUTH_TOKEN,
+  },
+
+  llm: {
+    // Any OpenAI-compatible server; OpenAI itself by default
+    baseUrl: process.env.LLM_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: process.env.LLM_API_KEY,
+    // Requests asking for longer replies are capped at this
+    maxTokens: numberFromEnv('LLM_MAX_TOKENS', 4096),
+    // Also the list of models clients may ask for
+    pricing: pricingFromEnv(),
+  },
+
+  // Requests per user per minute
+  rateLimits: {
+    run: numberFromEnv('RUN_RATE_LIMIT', 30),
+    // Each submission runs every test case
+    submit: numberFromEnv('SUBMIT_RATE_LIMIT', 5),
+    ai: numberFromEnv('AI_RATE_LIMIT', 20),
+    // Inline completions, asked for whenever typing pauses
+    completion: numberFromEnv('COMPLETION_RATE_LIMIT', 60),
+  },
+
+  // AI tokens per user per UTC day and month, by role; 0 means unlimited
+  aiQuotas: {
+    student: {
+      daily: numberFromEnv('AI_DAILY_TOKENS_STUDENT', 50000),
+      monthly: numberFromEnv('AI_MONTHLY_TOKENS_STUDENT', 500000),
+    },
+    mentor: {
+      daily: numberFromEnv('AI_DAILY_TOKENS_MENTOR', 200000),
+      monthly: numberFromEnv('AI_MONTHLY_TOKENS_MENTOR', 2000000),
+    },
+    admin: {
+      daily: numberFromEnv('AI_DAILY_TOKENS_ADMIN', 0),
+      monthly: numberFromEnv('AI_MONTHLY_TOKENS_ADMIN', 0),
+    },
+  },
+}
@@ -0,0 +1,33 @@
+import cors from 'cors'
+import express from 'express'
+import { aiChatRouter } from './aiChat.js'
+import { requireUser } from './auth.js'
+import { config } from './config.js'
+import { createRateLimiter } from './rateLimit.js'
+import { runRouter } from './run.js'
+import { submissionsRouter } from './submissions.js'
+import { getUsage } from './usage.js'
+
+const MINUTE_MS = 60 * 1000
+
+const app = express()
+app.use(cors({ origin: config.allowedOrigins }))
+app.use(express.json({ limit: '2mb' }))
+
+app.get('/health', (_req, res) => {
+  res.json({ ok: true })
+})
+
+app.use('/run', requireUser, createRateLimiter({ limit: config.rateLimits.run, windowMs: MINUTE_MS }), runRouter)
+app.use(
+  '/submissions',
+  requireUser,
+  createRateLimiter({ limit: config.rateLimits.submit, windowMs: MINUTE_MS }),
+  submissionsRouter
+)
+app.get('/ai/usage', requireUser, getUsage)
+app.use('/ai', requireUser, aiChatRouter)
+
+app.listen(config.port, () => {
+  console.log(`API listening on http://localhost:${config.port}`)
+})
@@ -0,0 +1,64 @@
+import { ExecutionResult, runOnJudge0 } from './judge0.js'
+
+// Same shapes and rules as the client's judgeService, which still validates
+// reference solutions in the admin editor
+export type Verdict =
+  | 'Accepted'
+  | 'Wrong Answer'
+  | 'Time Limit Exceeded'
+  | 'Runtime Error'
+  | 'Compilation Error'
+
+export interface TestCase {
+  input: string
+  expectedOutput: string
+}
+
+export interface TestResult {
+  verdict: Verdict
+  time: number | null
+  memory: number | null
+}
+
+export interface JudgeResult {
+  verdict: Verdict
+  results: TestResult[]
+  passed: number
+  total: number
+}
+
+// Ignore trailing whitespace on each line and trailing blank lines
+const normalizeOutput = (output: string): string =>
+  output.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trimEnd()
+
+const getVerdict = (execution: ExecutionResult, expectedOutput: string): Verdict => {
+  if (execution.status === 'compilation_error' || execution.compileOutput) {
+    return 'Compilation Error'
+  }
+  if (execution.status === 'time_limit_exceeded') {
+    return 'Time Limit Exceeded'
+  }
+  // Output on stderr alone, e.g. a logged warning, doesn't fail a run
+  if (execution.status !== 'ok') {
+    return 'Runtime Error'
+  }
+  return normalizeOutput(execution.stdout || '') === normalizeOutput(expectedOutput) ? 'Accepted' : 'Wrong Answer'
+}
+
+export const judgeSolution = async (code: string, language: string, testCases: TestCase[]): Promise<JudgeResult> => {
+  const results: TestResult[] = []
+  for (const testCase of testCases) {
+    const execution = await runOnJudge0(code, language, testCase.input)
+    const verdict = getVerdict(execution, testCase.expectedOutput)
+    results.push({ verdict, time: execution.time, memory: execution.memory })
+    // The remaining tests would fail to compile in exactly the same way
+    if (verdict === 'Compilation Error') break
+  }
+  const firstFailure = results.find(result => result.verdict !== 'Accepted')
+  return {
+    verdict: firstFailure ? firstFailure.verdict : 'Accepted',
+    results,
+    passed: results.filter(result => result.verdict === 'Accepted').length,
+    total: testCases.length,
+  }
+}
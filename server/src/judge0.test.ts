@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+import { toExecutionStatus } from './judge0.js'
+
+describe('toExecutionStatus', () => {
+  it.each([
+    [3, 'ok'],
+    [4, 'ok'],
+    [5, 'time_limit_exceeded'],
+    [6, 'compilation_error'],
+    [7, 'runtime_error'],
+    [11, 'runtime_error'],
+    [12, 'runtime_error'],
+    [1, 'internal_error'],
+    [13, 'internal_error'],
+    [14, 'internal_error'],
+  ])('maps status %i to %s', (statusId, status) => {
+    expect(toExecutionStatus(statusId)).toBe(status)
+  })
+})
@@ -0,0 +1,112 @@
+import { config } from './config.js'
+
+export type ExecutionStatus =
+  | 'ok'
+  | 'compilation_error'
+  | 'runtime_error'
+  | 'time_limit_exceeded'
+  | 'internal_error'
+
+// Same shape as ExecutionResult in the client's codeRunner
+export interface ExecutionResult {
+  status: ExecutionStatus
+  stdout: string | null
+  stderr: string | null
+  compileOutput: string | null
+  message: string | null
+  time: number | null
+  memory: number | null
+}
+
+export const JUDGE0_LANGUAGE_IDS: Record<string, number> = {
+  javascript: 63,
+  typescript: 74,
+  python: 71,
+  java: 62,
+  cpp: 54,
+}
+
+const RAPIDAPI_HOST = 'judge0-ce.p.rapidapi.com'
+
+// The fields of a finished Judge0 submission that are read; time is in seconds, as a string
+interface Judge0Submission {
+  status?: { id?: number, description?: string }
+  stdout?: string | null
+  stderr?: string | null
+  compile_output?: string | null
+  message?: string | null
+  time?: string | null
+  memory?: number | null
+}
+
+// Judge0 status ids, see https://ce.judge0.com/statuses
+export const toExecutionStatus = (statusId: number): ExecutionStatus => {
+  switch (statusId) {
+    case 3: // Accepted
+    case 4: // Wrong Answer (only when expected_output is sent)
+      return 'ok'
+    case 5:
+      return 'time_limit_exceeded'
+    case 6:
+      return 'compilation_error'
+    case 7:
+    case 8:
+    case 9:
+    case 10:
+    case 11:
+    case 12:
+      return 'runtime_error'
+    default:
+      return 'internal_error'
+  }
+}
+
+const judge0Endpoint = (): { baseUrl: string, headers: Record<string, string> } => {
+  const { baseUrl, rapidApiKey, authToken } = config.judge0
+  if (baseUrl) {
+    return {
+      baseUrl: baseUrl.replace(/\/$/, ''),
+      headers: authToken ? { 'X-Auth-Token': authToken } : {},
+    }
+  }
+  if (!rapidApiKey) {
+    throw new Error('Set JUDGE0_RAPIDAPI_KEY or JUDGE0_BASE_URL to run code')
+  }
+  return {
+    baseUrl: `https://${RAPIDAPI_HOST}`,
+    headers: { 'X-RapidAPI-Host': RAPIDAPI_HOST, 'X-RapidAPI-Key': rapidApiKey },
+  }
+}
+
+export const runOnJudge0 = async (code: string, language: string, stdin: string): Promise<ExecutionResult> => {
+  const { baseUrl, headers } = judge0Endpoint()
+  const response = await fetch(`${baseUrl}/submissions?base64_encoded=false&wait=true`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify({
+      source_code: code,
+      language_id: JUDGE0_LANGUAGE_IDS[language],
+      stdin,
+    }),
+  })
+  if (!response.ok) {
+    throw new Error(`Judge0 request failed with status ${response.status}`)
+  }
+  const body: unknown = await response.json()
+  if (typeof body !== 'object' || body === null) {
+    throw new Error('Judge0 returned an invalid response')
+  }
+  const result = body as Judge0Submission
+  return {
+    status: toExecutionStatus(result.status?.id ?? 0),
+    stdout: result.stdout ?? null,
+    stderr: result.stderr ?? null,
+    compileOutput: result.compile_output ?? null,
+    message: result.message ?? result.status?.description ?? null,
+    time: result.time != null ? Number(result.time) : null,
+    memory: result.memory ?? null,
+  }
+}
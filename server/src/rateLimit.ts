@@ -0,0 +1,31 @@
+import { RequestHandler } from 'express'
+
+interface RateLimitOptions {
+  // Requests allowed per user in each window
+  limit: number
+  windowMs: number
+}
+
+// Fixed-window limit per user, kept in memory; run a single instance or
+// swap this for a shared store before scaling out
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions): RequestHandler => {
+  const windows = new Map<string, { start: number, count: number }>()
+
+  return (_req, res, next) => {
+    const uid: string = res.locals.uid
+    const now = Date.now()
+    let window = windows.get(uid)
+    if (!window || now - window.start >= windowMs) {
+      window = { start: now, count: 0 }
+      windows.set(uid, window)
+    }
+    window.count++
+    if (window.count > limit) {
+      const retryAfter = Math.ceil((window.start + windowMs - now) / 1000)
+      res.setHeader('Retry-After', String(retryAfter))
+      res.status(429).json({ error: `Rate limit exceeded, try again in ${retryAfter}s` })
+      return
+    }
+    next()
+  }
+}
@@ -0,0 +1,31 @@
+import { Router } from 'express'
+import { JUDGE0_LANGUAGE_IDS, runOnJudge0 } from './judge0.js'
+
+// Largest program and stdin accepted, in characters
+export const MAX_CODE_LENGTH = 64 * 1024
+const MAX_STDIN_LENGTH = 1024 * 1024
+
+export const runRouter = Router()
+
+// POST /run { code, language, stdin? } -> ExecutionResult
+runRouter.post('/', async (req, res) => {
+  const { code, language, stdin = '' } = req.body ?? {}
+  if (typeof code !== 'string' || typeof language !== 'string' || typeof stdin !== 'string') {
+    res.status(400).json({ error: 'Expected { code, language, stdin? } as strings' })
+    return
+  }
+  if (!(language in JUDGE0_LANGUAGE_IDS)) {
+    res.status(400).json({ error: 'Unsupported language' })
+    return
+  }
+  if (code.length > MAX_CODE_LENGTH || stdin.length > MAX_STDIN_LENGTH) {
+    res.status(413).json({ error: 'Code or input too large' })
+    return
+  }
+  try {
+    res.json(await runOnJudge0(code, language, stdin))
+  } catch (error) {
+    console.error('Error running code:', error)
+    res.status(502).json({ error: 'Code execution service unavailable' })
+  }
+})
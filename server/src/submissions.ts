@@ -0,0 +1,81 @@
+import { Router } from 'express'
+import { DocumentData, FieldValue, getFirestore } from 'firebase-admin/firestore'
+import { getUserRole } from './auth.js'
+import { JUDGE0_LANGUAGE_IDS } from './judge0.js'
+import { judgeSolution, TestCase } from './judge.js'
+import { MAX_CODE_LENGTH } from './run.js'
+import { getAIHelp, getTutorMode } from './tutor.js'
+import { isDocumentId } from './validate.js'
+
+const isTestCase = (value: unknown): value is TestCase =>
+  typeof value === 'object' && value !== null
+  && typeof (value as TestCase).input === 'string'
+  && typeof (value as TestCase).expectedOutput === 'string'
+
+// problemTestCases is admin-only; problems saved before it existed keep theirs on the problem
+const getTestCases = async (problemId: string, problemData: DocumentData): Promise<TestCase[]> => {
+  const stored = await getFirestore().doc(`problemTestCases/${problemId}`).get()
+  const testCases: unknown = stored.exists ? stored.get('testCases') : problemData.testCases
+  return Array.isArray(testCases) ? testCases.filter(isTestCase) : []
+}
+
+export const submissionsRouter = Router()
+
+// POST /submissions { problemId, code, language } judges the code against the
+// problem's hidden test cases and saves the submission. Clients can't write
+// submissions themselves, so verdicts and solved counts can be trusted.
+submissionsRouter.post('/', async (req, res) => {
+  const { problemId, code, language } = req.body ?? {}
+  if (typeof problemId !== 'string' || typeof code !== 'string' || typeof language !== 'string') {
+    res.status(400).json({ error: 'Expected { problemId, code, language } as strings' })
+    return
+  }
+  if (!isDocumentId(problemId)) {
+    res.status(400).json({ error: 'Invalid problemId' })
+    return
+  }
+  if (!(language in JUDGE0_LANGUAGE_IDS)) {
+    res.status(400).json({ error: 'Unsupported language' })
+    return
+  }
+  if (code.length > MAX_CODE_LENGTH) {
+    res.status(413).json({ error: 'Code too large' })
+    return
+  }
+  const uid: string = res.locals.uid
+  try {
+    const db = getFirestore()
+    const problem = await db.doc(`problems/${problemId}`).get()
+    const problemData = problem.data()
+    // Drafts only take submissions from staff previewing them
+    if (!problemData || (problemData.status === 'draft' && (await getUserRole(uid)) === 'student')) {
+      res.status(404).json({ error: 'Problem not found' })
+      return
+    }
+    const [testCases, tutorMode, help] = await Promise.all([
+      getTestCases(problemId, problemData),
+      getTutorMode(uid, problemId),
+      getAIHelp(uid, problemId),
+    ])
+    const result = testCases.length > 0 ? await judgeSolution(code, language, testCases) : null
+    const submission = await db.collection('submissions').add({
+      userId: uid,
+      problemId,
+      language,
+      code,
+      verdict: result ? result.verdict : null,
+      results: result ? result.results : [],
+      passed: result ? result.passed : 0,
+      total: result ? result.total : 0,
+      // The AI help counts come from the AI routes, so instructors can rely on them
+      tutorMode: tutorMode === true,
+      hintsUsed: help.hintsUsed,
+      aiRequests: help.aiRequests,
+      createdAt: FieldValue.serverTimestamp(),
+    })
+    res.json({ id: submission.id, result })
+  } catch (error) {
+    console.error('Error judging submission:', error)
+    res.status(502).json({ error: 'Could not judge the submission' })
+  }
+})
@@ -0,0 +1,74 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore'
+
+export interface ChatMessage {
+  role: string
+  content: string
+}
+
+// Rungs in the client's HINT_LADDER
+export const HINT_LEVELS = 3
+
+// Same as the client's, which is only trusted for providers that bypass this server
+const TUTOR_SYSTEM_PROMPT = 'You are a Socratic programming tutor on a practice platform. ' +
+  'Never write a complete or near-complete solution, never write whole functions, and never fix the code for the student. ' +
+  'Guide with questions, point at the part of their code or reasoning to look at, and explain concepts. ' +
+  'Code snippets of at most three lines are allowed only to illustrate syntax unrelated to solving the problem. ' +
+  'If the student asks for the solution, explain that tutor mode is on and offer the next hint instead.'
+
+// What the client's system prompt puts before the attached problem, code and run results
+const CONTEXT_HEADING = '\n\n# Context\n\n'
+
+// On for the problem, or for every problem when a mentor has enabled it for
+// the student. Null when the problem doesn't exist.
+export const getTutorMode = async (uid: string, problemId: string): Promise<boolean | null> => {
+  const db = getFirestore()
+  const [user, problem] = await Promise.all([db.doc(`users/${uid}`).get(), db.doc(`problems/${problemId}`).get()])
+  if (!problem.exists) return null
+  return problem.get('tutorMode') === true || user.get('tutorMode') === true
+}
+
+// Swaps the client's system prompt for the tutor one and keeps only the
+// context it attached, so asking for a solution through a custom system
+// message doesn't work
+export const applyTutorPrompt = (messages: ChatMessage[]): ChatMessage[] => {
+  const context = messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content.split(CONTEXT_HEADING)[1])
+    .filter(Boolean)
+  return [
+    {
+      role: 'system',
+      content: context.length > 0 ? `${TUTOR_SYSTEM_PROMPT}${CONTEXT_HEADING}${context.join('\n\n')}` : TUTOR_SYSTEM_PROMPT,
+    },
+    ...messages.filter(message => message.role !== 'system'),
+  ]
+}
+
+export interface AIHelp {
+  hintsUsed: number
+  aiRequests: number
+}
+
+// Ids are "<uid>_<problemId>", like drafts
+const aiHelpRef = (uid: string, problemId: string) => getFirestore().doc(`aiHelp/${uid}_${problemId}`)
+
+export const getAIHelp = async (uid: string, problemId: string): Promise<AIHelp> => {
+  const snapshot = await aiHelpRef(uid, problemId).get()
+  return { hintsUsed: snapshot.get('hintsUsed') ?? 0, aiRequests: snapshot.get('aiRequests') ?? 0 }
+}
+
+// Counts one chat request on the problem, and the rung reached when it asked
+// for a hint. Only this server writes aiHelp, so students can't reset it.
+export const recordAIHelp = async (uid: string, problemId: string, hintLevel?: number) => {
+  const ref = aiHelpRef(uid, problemId)
+  await getFirestore().runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref)
+    const hintsUsed: number = snapshot.get('hintsUsed') ?? 0
+    transaction.set(ref, {
+      userId: uid,
+      problemId,
+      aiRequests: FieldValue.increment(1),
+      hintsUsed: Math.max(hintsUsed, hintLevel ?? 0),
+    }, { merge: true })
+  })
+}
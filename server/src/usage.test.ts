@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { createUsageMeter } from './usage.js'
+
+const encoder = new TextEncoder()
+
+const event = (payload: unknown) => `data: ${JSON.stringify(payload)}\n\n`
+const delta = (content: string) => event({ choices: [{ delta: { content } }] })
+
+describe('createUsageMeter', () => {
+  it('uses the usage reported in the final chunk', () => {
+    const meter = createUsageMeter('prompt')
+    meter.write(encoder.encode(delta('Hello') + event({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 3 } })))
+    meter.write(encoder.encode('data: [DONE]\n\n'))
+    expect(meter.usage()).toEqual({ promptTokens: 12, completionTokens: 3, estimated: false })
+  })
+
+  it('estimates from the text when no usage was reported', () => {
+    const meter = createUsageMeter('a'.repeat(40))
+    meter.write(encoder.encode(delta('abcd') + delta('efgh')))
+    expect(meter.usage()).toEqual({ promptTokens: 10, completionTokens: 2, estimated: true })
+  })
+
+  it('reassembles events split across chunks', () => {
+    const bytes = encoder.encode(delta('héllo wörld'))
+    const meter = createUsageMeter('')
+    // Split inside the line and inside a multi-byte character
+    for (const [start, end] of [[0, 20], [20, 41], [41, bytes.length]]) {
+      meter.write(bytes.slice(start, end))
+    }
+    expect(meter.usage().completionTokens).toBe(Math.ceil('héllo wörld'.length / 4))
+  })
+
+  it('ignores lines that are not JSON events', () => {
+    const meter = createUsageMeter('')
+    meter.write(encoder.encode(': keep-alive\n\ndata: not json\n\ndata: null\n\n' + delta('abcd')))
+    expect(meter.usage()).toEqual({ promptTokens: 0, completionTokens: 1, estimated: true })
+  })
+})
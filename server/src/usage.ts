@@ -0,0 +1,173 @@
+import { RequestHandler } from 'express'
+import { FieldValue, getFirestore } from 'firebase-admin/firestore'
+import { getUserRole, Role } from './auth.js'
+import { config } from './config.js'
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  // Counted from the text because the upstream didn't report usage, e.g. for a stopped reply
+  estimated: boolean
+}
+
+interface PeriodUsage {
+  used: number
+  // 0 means unlimited
+  limit: number
+}
+
+export interface QuotaStatus {
+  role: Role
+  day: PeriodUsage
+  month: PeriodUsage
+  // The period whose quota is used up, if any
+  exceeded: 'day' | 'month' | null
+}
+
+// Same rough rule as the client: about four characters per token
+const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+// Quotas reset at midnight UTC and on the first of the month
+const currentPeriods = () => {
+  const now = new Date().toISOString()
+  return { day: now.slice(0, 10), month: now.slice(0, 7) }
+}
+
+const isExceeded = ({ used, limit }: PeriodUsage) => limit > 0 && used >= limit
+
+// aiUsage/{uid} keeps running totals for the current day and month
+export const getQuotaStatus = async (uid: string): Promise<QuotaStatus> => {
+  const [role, summary] = await Promise.all([getUserRole(uid), getFirestore().doc(`aiUsage/${uid}`).get()])
+  const { day, month } = currentPeriods()
+  const quota = config.aiQuotas[role]
+  const status = {
+    role,
+    day: { used: summary.get('day') === day ? summary.get('dayTokens') ?? 0 : 0, limit: quota.daily },
+    month: { used: summary.get('month') === month ? summary.get('monthTokens') ?? 0 : 0, limit: quota.monthly },
+  }
+  return {
+    ...status,
+    exceeded: isExceeded(status.month) ? 'month' : isExceeded(status.day) ? 'day' : null,
+  }
+}
+
+// Rejects AI requests once the caller's daily or monthly quota is used up.
+// Concurrent requests are checked before any of them is recorded, so a
+// quota can be overshot by the replies already in flight.
+export const requireAIQuota: RequestHandler = async (_req, res, next) => {
+  try {
+    const status = await getQuotaStatus(res.locals.uid)
+    if (status.exceeded) {
+      const { limit } = status[status.exceeded]
+      res.status(429).json({
+        error: status.exceeded === 'day'
+          ? `You have used today's AI quota of ${limit.toLocaleString('en-US')} tokens. It resets at midnight UTC.`
+          : `You have used this month's AI quota of ${limit.toLocaleString('en-US')} tokens. It resets on the 1st (UTC).`,
+        usage: status,
+      })
+      return
+    }
+    next()
+  } catch (error) {
+    console.error('Error checking AI quota:', error)
+    res.status(500).json({ error: 'Could not check AI quota' })
+  }
+}
+
+// GET /ai/usage -> QuotaStatus for the sidebar meter
+export const getUsage: RequestHandler = async (_req, res) => {
+  try {
+    res.json(await getQuotaStatus(res.locals.uid))
+  } catch (error) {
+    console.error('Error reading AI usage:', error)
+    res.status(500).json({ error: 'Could not read AI usage' })
+  }
+}
+
+// Adds one request to the caller's totals and logs it in aiUsageEvents for the admin report
+export const recordUsage = async (uid: string, model: string, usage: TokenUsage) => {
+  const totalTokens = usage.promptTokens + usage.completionTokens
+  if (totalTokens === 0) return
+  const price = config.llm.pricing[model]
+  const costUsd = (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1e6
+  const db = getFirestore()
+  const summaryRef = db.doc(`aiUsage/${uid}`)
+  await db.runTransaction(async transaction => {
+    const summary = await transaction.get(summaryRef)
+    const { day, month } = currentPeriods()
+    transaction.set(summaryRef, {
+      userId: uid,
+      day,
+      dayTokens: (summary.get('day') === day ? summary.get('dayTokens') ?? 0 : 0) + totalTokens,
+      month,
+      monthTokens: (summary.get('month') === month ? summary.get('monthTokens') ?? 0 : 0) + totalTokens,
+      updatedAt: FieldValue.serverTimestamp(),
+    })
+    transaction.create(db.collection('aiUsageEvents').doc(), {
+      userId: uid,
+      model,
+      ...usage,
+      totalTokens,
+      costUsd,
+      createdAt: FieldValue.serverTimestamp(),
+    })
+  })
+}
+
+interface ReportedUsage {
+  prompt_tokens?: number
+  completion_tokens?: number
+}
+
+// The parts of an OpenAI streaming chunk that are counted
+interface StreamEvent {
+  usage?: ReportedUsage | null
+  choices?: { delta?: { content?: unknown } }[]
+}
+
+// Follows a reply's server-sent events to count its tokens. The final chunk
+// carries the usage when the upstream honours stream_options.include_usage;
+// otherwise, or when the reply was cut short, the text is counted instead.
+export const createUsageMeter = (promptText: string) => {
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let completionText = ''
+  let reported: ReportedUsage | null = null
+
+  return {
+    write(chunk: Uint8Array) {
+      buffer += decoder.decode(chunk, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+      for (const line of lines) {
+        const data = line.match(/^data:\s*(.*)$/)?.[1]
+        if (!data || data === '[DONE]') continue
+        try {
+          const event: unknown = JSON.parse(data)
+          if (typeof event !== 'object' || event === null) continue
+          const { usage, choices } = event as StreamEvent
+          if (typeof usage === 'object' && usage !== null) reported = usage
+          const content = Array.isArray(choices) ? choices[0]?.delta?.content : undefined
+          if (typeof content === 'string') completionText += content
+        } catch {
+          // Not JSON; nothing to count
+        }
+      }
+    },
+
+    usage(): TokenUsage {
+      if (reported) {
+        return {
+          promptTokens: typeof reported.prompt_tokens === 'number' ? reported.prompt_tokens : 0,
+          completionTokens: typeof reported.completion_tokens === 'number' ? reported.completion_tokens : 0,
+          estimated: false,
+        }
+      }
+      return {
+        promptTokens: estimateTokens(promptText),
+        completionTokens: estimateTokens(completionText),
+        estimated: true,
+      }
+    },
+  }
+}
@@ -0,0 +1,11 @@
+// Firestore document ids that can be put into a path as they are: no
+// slashes, which would point into another collection, and none of the
+// reserved names
+export const isDocumentId = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  value.length > 0 &&
+  value.length <= 1500 &&
+  !value.includes('/') &&
+  value !== '.' &&
+  value !== '..' &&
+  !/^__.*__$/.test(value)
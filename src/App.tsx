@@ -3,11 +3,17 @@ import { AuthProvider } from './contexts/AuthContext'
 import { LoadingProvider } from './contexts/LoadingContext'
 import PrivateRoute from './components/PrivateRoute'
 import Layout from './components/Layout'
+import { STAFF_ROLES } from './services/userService'
 import Login from './pages/Login'
 import Register from './pages/Register'
 import ForgotPassword from './pages/ForgotPassword'
 import Dashboard from './pages/Dashboard'
 import ProblemView from './pages/ProblemView'
+import Profile from './pages/Profile'
+import Settings from './pages/Settings'
+import AdminProblems from './pages/admin/AdminProblems'
+import ProblemEditor from './pages/admin/ProblemEditor'
+import AIUsageReport from './pages/admin/AIUsageReport'
 
 function App() {
   return (
@@ -39,6 +45,77 @@ function App() {
                   </PrivateRoute>
                 }
               />
+              <Route
+                path="/profile"
+                element={
+                  <PrivateRoute>
+                    <Layout>
+                      <Profile />
+                    </Layout>
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/settings"
+                element={
+                  <PrivateRoute>
+                    <Layout>
+                      <Settings />
+                    </Layout>
+                  </PrivateRoute>
+                }
+              />
+              {/* Other users' submissions are only readable by staff */}
+              <Route
+                path="/u/:uid"
+                element={
+                  <PrivateRoute requiredRole={STAFF_ROLES}>
+                    <Layout>
+                      <Profile />
+                    </Layout>
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/admin/problems"
+                element={
+                  <PrivateRoute requiredRole="admin">
+                    <Layout>
+                      <AdminProblems />
+                    </Layout>
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/admin/problems/new"
+                element={
+                  <PrivateRoute requiredRole="admin">
+                    <Layout>
+                      <ProblemEditor />
+                    </Layout>
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/admin/problems/:id"
+                element={
+                  <PrivateRoute requiredRole="admin">
+                    <Layout>
+                      <ProblemEditor />
+                    </Layout>
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/admin/ai-usage"
+                element={
+                  <PrivateRoute requiredRole="admin">
+                    <Layout>
+                      <AIUsageReport />
+                    </Layout>
+                  </PrivateRoute>
+                }
+              />
             </Routes>
           </div>
         </LoadingProvider>
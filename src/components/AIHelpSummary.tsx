@@ -0,0 +1,16 @@
+import { Submission } from '../services/submissionService'
+import { HINT_LADDER } from '../services/tutorService'
+
+// Hints and AI requests behind a submission, for instructors
+export default function AIHelpSummary({ submission }: { submission: Submission }) {
+  const { tutorMode, hintsUsed, aiRequests } = submission
+  if (!tutorMode && aiRequests === 0) {
+    return <span className="text-gray-400">None</span>
+  }
+  return (
+    <span className="text-gray-700">
+      {tutorMode && `${hintsUsed}/${HINT_LADDER.length} hints, `}
+      {aiRequests} request{aiRequests === 1 ? '' : 's'}
+    </span>
+  )
+}
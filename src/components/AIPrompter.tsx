@@ -1,53 +1,57 @@
 import React, { useState, useRef, useEffect } from 'react';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import MarkdownContent from './MarkdownContent';
+import ChatThreadSwitcher from './ChatThreadSwitcher';
+import AIUsageMeter from './AIUsageMeter';
+import { useAIUsage } from '../hooks/useAIUsage';
+import { ChatThreads } from '../hooks/useChatThreads';
 import type * as monaco from 'monaco-editor';
+import { useMonaco } from '@monaco-editor/react';
+import { AI_ACTIONS, AIAction, HAS_RUN_ERROR_KEY } from '../services/aiActions';
+import {
+  AIContext,
+  buildChatRequest,
+  ChatEntry,
+  ChatMessage,
+  CONTINUE_PROMPT,
+  getLastCodeBlock,
+  getTokenBudget,
+  streamChatReply,
+} from '../services/aiService';
+import { getDefaultModel, getModel, getModelCatalog } from '../config/models';
+import { Problem } from '../services/problemService';
+import { getLanguageLabel } from '../config/languages';
+import { HINT_LADDER, TUTOR_SYSTEM_PROMPT } from '../services/tutorService';
 
-const MODELS = [
-  { label: 'GPT-4.1 Mini', value: 'gpt-4.1-mini' },
-  { label: 'GPT-4o', value: 'gpt-4o' },
-];
-
-const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY;
-
-async function fetchOpenAICompletion(prompt: string, model: string): Promise<string> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages: [
-        { role: 'system', content: 'You are a helpful coding assistant.' },
-        { role: 'user', content: prompt },
-      ],
-      max_tokens: 512,
-      temperature: 0.2,
-    }),
-  });
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(error);
-  }
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content || 'No response from AI.';
-}
+type Attachment = 'problem' | 'code' | 'language' | 'lastRun';
 
 interface AIPrompterProps {
   editor: monaco.editor.IStandaloneCodeEditor | null;
-  onAISuggestion?: (suggestion: { type: 'insert' | 'replace', code: string, range?: monaco.Range }) => void;
-  chat: { role: 'user' | 'assistant', content: string }[];
-  setChat: React.Dispatch<React.SetStateAction<{ role: 'user' | 'assistant', content: string }[]>>;
+  // Opens a code block from the chat for review against the editor
+  onAISuggestion?: (code: string) => void;
+  chat: ChatEntry[];
+  setChat: React.Dispatch<React.SetStateAction<ChatEntry[]>>;
+  problem: Problem | null;
+  language: string;
+  lastRun: { output: string | null, error: string | null };
+  threads: ChatThreads;
+  // Socratic guidance and the hint ladder instead of solutions
+  tutorMode: boolean;
+  // Rungs of the hint ladder already climbed
+  hintsUsed: number;
+  // Called for every request sent, with the new rung when it was a hint
+  onRequest?: (hintsUsed?: number) => void;
 }
 
-export default function AIPrompter({ editor, chat, setChat }: AIPrompterProps) {
-  const [model, setModel] = useState('gpt-4.1-mini');
+export default function AIPrompter({ editor, onAISuggestion, chat, setChat, problem, language, lastRun, threads, tutorMode, hintsUsed, onRequest }: AIPrompterProps) {
+  const [modelId, setModelId] = useState(() => getDefaultModel().id);
+  const model = getModel(modelId);
+  const tokenBudget = getTokenBudget(model);
   const [prompt, setPrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const abortController = useRef<AbortController | null>(null);
+  const usage = useAIUsage(isLoading);
+  const quotaExceeded = !!usage?.exceeded;
+  const monacoApi = useMonaco();
   const outputRef = useRef<HTMLDivElement>(null);
   const [, setShowScrollButton] = useState(false);
   const [width, setWidth] = useState(400); // px
@@ -57,6 +61,58 @@ export default function AIPrompter({ editor, chat, setChat }: AIPrompterProps) {
   const [atBottom, setAtBottom] = useState(true);
   const userPromptCount = chat.filter(msg => msg.role === 'user').length;
   const [, setSelectionVersion] = useState(0);
+  const [, setContentVersion] = useState(0);
+  // Everything available is attached until the user removes it
+  const [detached, setDetached] = useState<Set<Attachment>>(new Set());
+  const selection = editor?.getSelection();
+  const hasSelection = !!selection && !selection.isEmpty();
+  const hasLastRun = !!(lastRun.output || lastRun.error);
+  const systemPrompt = tutorMode ? TUTOR_SYSTEM_PROMPT : undefined;
+  const nextHint = HINT_LADDER[hintsUsed];
+
+  // The context as it would be sent right now, read from the live editor.
+  // Editor actions put the code in the prompt themselves and leave it out here.
+  function collectContext(attachCode = true): AIContext {
+    const context: AIContext = {};
+    if (problem && !detached.has('problem')) context.problem = problem;
+    if (!detached.has('language')) context.language = language;
+    if (editor && attachCode && !detached.has('code')) {
+      const model = editor.getModel();
+      if (hasSelection && model && selection) {
+        context.code = {
+          text: model.getValueInRange(selection),
+          selection: { startLine: selection.startLineNumber, endLine: selection.endLineNumber },
+        };
+      } else {
+        context.code = { text: editor.getValue() };
+      }
+    }
+    if (hasLastRun && !detached.has('lastRun')) context.lastRun = lastRun;
+    return context;
+  }
+
+  const chips: { id: Attachment, label: string }[] = [
+    ...(problem ? [{ id: 'problem' as const, label: `Problem: ${problem.title}` }] : []),
+    {
+      id: 'code',
+      label: hasSelection && selection
+        ? `Selection (lines ${selection.startLineNumber}-${selection.endLineNumber})`
+        : 'Editor code',
+    },
+    { id: 'language', label: getLanguageLabel(language) },
+    ...(hasLastRun ? [{ id: 'lastRun' as const, label: lastRun.error ? 'Last error' : 'Last output' }] : []),
+  ];
+
+  const { omittedMessages } = buildChatRequest(chat, prompt, collectContext(), tokenBudget, systemPrompt);
+
+  function toggleAttachment(id: Attachment) {
+    setDetached(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
 
   // Handle drag to resize
   useEffect(() => {
@@ -76,47 +132,107 @@ export default function AIPrompter({ editor, chat, setChat }: AIPrompterProps) {
     };
   }, []);
 
-  const handleSend = async () => {
-    if (!prompt.trim()) return;
+  // Streams a reply into the last chat message, which must be the assistant's.
+  // `hintLevel` is the rung reached when the request is for a hint.
+  async function streamReply(messages: ChatMessage[], hintLevel?: number) {
+    const controller = new AbortController();
+    abortController.current = controller;
     setIsLoading(true);
-    // Add user message to chat
-    setChat(prev => [...prev, { role: 'user', content: prompt }]);
+    const updateReply = (update: (reply: ChatEntry) => ChatEntry) =>
+      setChat(prev => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
     try {
-      const result = await fetchOpenAICompletion(prompt, model);
-      setChat(prev => [...prev, { role: 'assistant', content: result }]);
-    } catch (err: any) {
-      setChat(prev => [...prev, { role: 'assistant', content: 'Error: ' + (err?.message || 'Failed to fetch AI response.') }]);
+      const { finishReason } = await streamChatReply(messages, model, {
+        signal: controller.signal,
+        onDelta: text => updateReply(reply => ({ ...reply, content: reply.content + text })),
+      }, { problemId: problem?.id, hintLevel });
+      updateReply(reply => ({
+        ...reply,
+        streaming: false,
+        truncated: finishReason === 'length',
+        stopped: finishReason === 'aborted',
+      }));
+    } catch (err) {
+      const error = 'Error: ' + (err instanceof Error && err.message ? err.message : 'Failed to fetch AI response.');
+      updateReply(reply => ({
+        ...reply,
+        streaming: false,
+        content: reply.content ? `${reply.content}\n\n${error}` : error,
+      }));
+    } finally {
+      abortController.current = null;
+      setIsLoading(false);
     }
+  }
+
+  // Posts a prompt to the chat and streams the reply; `reply` is merged into the reply's entry
+  async function sendPrompt(
+    text: string,
+    { attachCode = true, reply = {}, hint }: { attachCode?: boolean, reply?: Partial<ChatEntry>, hint?: number } = {}
+  ) {
+    if (isLoading) return;
+    const { messages } = buildChatRequest(chat, text, collectContext(attachCode), tokenBudget, systemPrompt);
+    // Tutor replies never go to the editor
+    const replyEntry: ChatEntry = { role: 'assistant', content: '', streaming: true, ...reply, ...(tutorMode ? { noReview: true } : {}) };
+    // Add user message and an empty reply for the stream to fill
+    setChat(prev => [...prev, { role: 'user', content: text }, replyEntry]);
+    onRequest?.(hint);
+    await streamReply(messages, hint);
+  }
+
+  // Climbs one rung of the hint ladder
+  const handleHint = async () => {
+    if (!nextHint || isLoading) return;
+    await sendPrompt(nextHint.prompt, { hint: hintsUsed + 1 });
+  };
+
+  const handleSend = async () => {
+    if (!prompt.trim() || isLoading) return;
     setPrompt('');
-    setIsLoading(false);
+    await sendPrompt(prompt);
   };
 
-  // Custom renderer for code blocks with copy button
-  function CodeBlock({ node, inline, className, children, ...props }: any) {
-    const match = /language-(\w+)/.exec(className || '');
-    const code = String(children).replace(/\n$/, '');
-    const [copied, setCopied] = useState(false);
-    const handleCopy = () => {
-      navigator.clipboard.writeText(code);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 1200);
-    };
-    return !inline && match ? (
-      <div className="relative group">
-        <SyntaxHighlighter style={vscDarkPlus} language={match[1]} PreTag="div" {...props}>
-          {code}
-        </SyntaxHighlighter>
-        <button
-          onClick={handleCopy}
-          className="absolute top-2 right-2 bg-gray-700 text-white text-xs px-2 py-1 rounded opacity-80 group-hover:opacity-100"
-        >
-          {copied ? 'Copied!' : 'Copy'}
-        </button>
-      </div>
-    ) : (
-      <code className={className} {...props}>{children}</code>
-    );
+  // Runs an editor context-menu action on the selection, or the whole file
+  function runAction(action: AIAction) {
+    const model = editor?.getModel();
+    if (!editor || !model || isLoading) return;
+    const actionSelection = editor.getSelection();
+    const isSelection = !!actionSelection && !actionSelection.isEmpty();
+    const text = action.buildPrompt({
+      code: isSelection && actionSelection ? model.getValueInRange(actionSelection) : model.getValue(),
+      isSelection,
+      language,
+      runError: lastRun.error,
+    });
+    const target = isSelection && actionSelection
+      ? {
+        startLineNumber: actionSelection.startLineNumber,
+        startColumn: actionSelection.startColumn,
+        endLineNumber: actionSelection.endLineNumber,
+        endColumn: actionSelection.endColumn,
+      }
+      : null;
+    sendPrompt(text, {
+      attachCode: false,
+      reply: action.producesCode ? { target } : { noReview: true },
+    });
   }
+  // Actions are registered once per editor, so they call through a ref
+  const runActionRef = useRef(runAction);
+  runActionRef.current = runAction;
+
+  // Asks for the rest of a reply that hit the token limit and appends it to the same message
+  const handleContinue = async () => {
+    if (isLoading) return;
+    const { messages } = buildChatRequest(chat, CONTINUE_PROMPT, collectContext(), tokenBudget, systemPrompt);
+    setChat(prev => [...prev.slice(0, -1), { ...prev[prev.length - 1], streaming: true, truncated: false }]);
+    onRequest?.();
+    await streamReply(messages);
+  };
+
+  const handleStop = () => abortController.current?.abort();
+
+  // Don't keep streaming into a sidebar that is gone
+  useEffect(() => () => abortController.current?.abort(), []);
 
   // Scroll to bottom when aiResponse changes
   useEffect(() => {
@@ -138,46 +254,53 @@ export default function AIPrompter({ editor, chat, setChat }: AIPrompterProps) {
     return () => ref.removeEventListener('scroll', handleScroll);
   }, []);
 
-  // Helper to extract the latest code block from the last AI message
-  function getLastCodeBlock() {
+  // Helper to extract the latest complete code block from the last AI message
+  function getLatestReplyCode() {
     const lastAI = [...chat].reverse().find(msg => msg.role === 'assistant');
-    if (!lastAI) return '';
-    // Match all code blocks (robust)
-    const matches = Array.from(lastAI.content.matchAll(/```(?:[a-zA-Z]*)\n([\s\S]*?)```/g));
-    return matches.length > 0 ? matches[matches.length - 1][1].trim() : '';
+    if (!lastAI || lastAI.streaming) return '';
+    return getLastCodeBlock(lastAI.content) ?? '';
   }
 
-  // Insert code at cursor
-  function handleInsert() {
+  useEffect(() => {
     if (!editor) return;
-    const code = getLastCodeBlock();
-    if (!code) return;
-    editor.trigger('ai', 'type', { text: code });
-  }
+    const disposable = editor.onDidChangeCursorSelection(() => {
+      setSelectionVersion(v => v + 1); // force re-render
+    });
+    return () => disposable && disposable.dispose();
+  }, [editor]);
 
-  // Replace selected code
-  function handleReplace() {
-    if (!editor) return;
-    const code = getLastCodeBlock();
-    if (!code) return;
-    const selection = editor.getSelection();
-    if (!selection || selection.isEmpty()) return;
-    editor.executeEdits('ai', [{ range: selection, text: code }]);
-  }
+  // AI actions in the editor's context menu, also bound to Ctrl/Cmd+Alt+<key>.
+  // Tutor mode keeps only the ones that don't write code.
+  useEffect(() => {
+    if (!editor || !monacoApi) return;
+    const actions = AI_ACTIONS.filter(action => !tutorMode || !action.producesCode);
+    const disposables = actions.map((action, idx) => editor.addAction({
+      id: `ai.${action.id}`,
+      label: `AI: ${action.label}`,
+      keybindings: [monacoApi.KeyMod.CtrlCmd | monacoApi.KeyMod.Alt | monacoApi.KeyCode[`Key${action.key}`]],
+      precondition: action.precondition,
+      contextMenuGroupId: 'ai',
+      contextMenuOrder: idx + 1,
+      run: () => runActionRef.current(action),
+    }));
+    return () => disposables.forEach(disposable => disposable.dispose());
+  }, [editor, monacoApi, tutorMode]);
 
-  // Helper to check if there is a non-empty selection
-  function hasNonEmptySelection() {
-    if (!editor) return false;
-    const selection = editor.getSelection();
-    return selection && !selection.isEmpty();
-  }
+  // Lets "Fix using last error" show only when there is an error to fix
+  useEffect(() => {
+    if (!editor) return;
+    const hasRunError = editor.createContextKey<boolean>(HAS_RUN_ERROR_KEY, false);
+    hasRunError.set(!!lastRun.error);
+    return () => hasRunError.reset();
+  }, [editor, lastRun.error]);
 
+  // Keeps the token estimate current as the code changes
   useEffect(() => {
     if (!editor) return;
-    const disposable = editor.onDidChangeCursorSelection(() => {
-      setSelectionVersion(v => v + 1); // force re-render
+    const disposable = editor.onDidChangeModelContent(() => {
+      setContentVersion(v => v + 1);
     });
-    return () => disposable && disposable.dispose();
+    return () => disposable.dispose();
   }, [editor]);
 
   return (
@@ -202,18 +325,56 @@ export default function AIPrompter({ editor, chat, setChat }: AIPrompterProps) {
           isResizing.current = true;
         }}
       />
+      <ChatThreadSwitcher {...threads} />
       <div className="flex items-center mb-4">
         <span className="font-semibold mr-2">AI Model:</span>
         <select
-          value={model}
-          onChange={e => setModel(e.target.value)}
+          value={modelId}
+          onChange={e => setModelId(e.target.value)}
           className="border rounded px-2 py-1"
         >
-          {MODELS.map(m => (
-            <option key={m.value} value={m.value}>{m.label}</option>
+          {getModelCatalog().map(m => (
+            <option key={m.id} value={m.id}>{m.label}</option>
           ))}
         </select>
       </div>
+      {usage && (
+        <div className="mb-4">
+          <AIUsageMeter usage={usage} />
+        </div>
+      )}
+      {tutorMode && (
+        <div className="mb-4 rounded border border-amber-200 bg-amber-50 p-2 text-sm text-amber-900">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold">Tutor mode</span>
+            <span className="text-xs">Hints used: {hintsUsed} of {HINT_LADDER.length}</span>
+          </div>
+          <p className="text-xs mt-1">The assistant guides you with questions and hints instead of writing the solution.</p>
+          <div className="flex gap-1 mt-2">
+            {HINT_LADDER.map((level, idx) => (
+              <span
+                key={level.label}
+                className={idx < hintsUsed
+                  ? 'text-xs px-2 py-0.5 rounded-full bg-amber-500 text-white'
+                  : 'text-xs px-2 py-0.5 rounded-full border border-amber-300 text-amber-700'}
+              >
+                {level.label}
+              </span>
+            ))}
+          </div>
+          {nextHint ? (
+            <button
+              className="mt-2 bg-amber-500 text-white rounded px-3 py-1 text-xs hover:bg-amber-600 disabled:opacity-50"
+              onClick={handleHint}
+              disabled={isLoading || quotaExceeded}
+            >
+              {nextHint.action}
+            </button>
+          ) : (
+            <div className="mt-2 text-xs">All hints used.</div>
+          )}
+        </div>
+      )}
       <div className="flex-1 relative mb-4 bg-gray-50 rounded p-2 overflow-y-auto" ref={outputRef} style={{ maxHeight: 'calc(100vh - 220px)' }}>
         {/* Chat/response area */}
         {chat.length === 0 ? (
@@ -235,17 +396,26 @@ export default function AIPrompter({ editor, chat, setChat }: AIPrompterProps) {
                 ) : (
                   <span className="font-semibold text-indigo-700">AI: </span>
                 )}
-                <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
-                  components={{
-                    code: CodeBlock,
-                    strong: ({node, ...props}) => <strong className="font-bold" {...props} />,
-                    ul: ({node, ...props}) => <ul className="list-disc ml-6" {...props} />,
-                    ol: ({node, ...props}) => <ol className="list-decimal ml-6" {...props} />,
-                  }}
-                >
-                  {msg.content}
-                </ReactMarkdown>
+                {msg.streaming && !msg.content ? (
+                  <span className="text-gray-400 animate-pulse">Thinking...</span>
+                ) : (
+                  <MarkdownContent>{msg.content}</MarkdownContent>
+                )}
+                {msg.stopped && <div className="text-xs text-gray-400 mt-1">Stopped</div>}
+                {msg.truncated && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    Reply cut off at the length limit.
+                    {idx === chat.length - 1 && (
+                      <button
+                        className="ml-2 text-indigo-600 font-medium hover:underline disabled:opacity-50"
+                        onClick={handleContinue}
+                        disabled={isLoading || quotaExceeded}
+                      >
+                        Continue
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           ))
@@ -264,6 +434,30 @@ export default function AIPrompter({ editor, chat, setChat }: AIPrompterProps) {
         )}
       </div>
       <div className="flex flex-col gap-2">
+        <div className="flex flex-wrap gap-1">
+          {chips.map(chip => {
+            const attached = !detached.has(chip.id);
+            return (
+              <button
+                key={chip.id}
+                onClick={() => toggleAttachment(chip.id)}
+                title={attached ? 'Attached to your next message. Click to remove.' : 'Not attached. Click to attach.'}
+                className={
+                  attached
+                    ? 'text-xs px-2 py-1 rounded-full bg-indigo-100 text-indigo-800 max-w-full truncate'
+                    : 'text-xs px-2 py-1 rounded-full border border-dashed text-gray-400 line-through max-w-full truncate'
+                }
+              >
+                {chip.label}
+              </button>
+            );
+          })}
+        </div>
+        {omittedMessages > 0 && (
+          <div className="text-xs text-gray-500">
+            {omittedMessages} older message{omittedMessages === 1 ? '' : 's'} won't be sent, to stay within the model's context.
+          </div>
+        )}
         <textarea
           className="border rounded p-2 resize-none"
           rows={3}
@@ -271,30 +465,31 @@ export default function AIPrompter({ editor, chat, setChat }: AIPrompterProps) {
           value={prompt}
           onChange={e => setPrompt(e.target.value)}
         />
-        <button
-          className="bg-indigo-600 text-white rounded px-4 py-2 hover:bg-indigo-700 disabled:opacity-50"
-          onClick={handleSend}
-          disabled={isLoading || !prompt.trim()}
-        >
-          {isLoading ? 'Thinking...' : 'Send'}
-        </button>
-        {/* Placeholder for Insert/Replace buttons */}
-        <div className="flex gap-2 mt-2">
+        {isLoading ? (
           <button
-            className="bg-green-600 text-white rounded px-3 py-1"
-            onClick={handleInsert}
-            disabled={!editor || !getLastCodeBlock()}
+            className="bg-red-600 text-white rounded px-4 py-2 hover:bg-red-700"
+            onClick={handleStop}
           >
-            Insert
+            Stop
           </button>
+        ) : (
           <button
-            className="bg-blue-600 text-white rounded px-3 py-1"
-            onClick={handleReplace}
-            disabled={!editor || !getLastCodeBlock() || !hasNonEmptySelection()}
+            className="bg-indigo-600 text-white rounded px-4 py-2 hover:bg-indigo-700 disabled:opacity-50"
+            onClick={handleSend}
+            disabled={!prompt.trim() || quotaExceeded}
           >
-            Replace
+            Send
           </button>
-        </div>
+        )}
+        {!tutorMode && (
+          <button
+            className="bg-green-600 text-white rounded px-3 py-1 mt-2 self-start disabled:opacity-50"
+            onClick={() => onAISuggestion?.(getLatestReplyCode())}
+            disabled={!editor || !getLatestReplyCode()}
+          >
+            Review last code block
+          </button>
+        )}
       </div>
     </aside>
   );
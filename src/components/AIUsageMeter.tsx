@@ -0,0 +1,39 @@
+import { AIUsage, PeriodUsage } from '../services/aiUsageService'
+
+function UsageBar({ label, usage }: { label: string, usage: PeriodUsage }) {
+  if (usage.limit === 0) {
+    return <div>{label}: {usage.used.toLocaleString()} tokens (no limit)</div>
+  }
+  const share = Math.min(1, usage.used / usage.limit)
+  return (
+    <div>
+      <div className="flex justify-between">
+        <span>{label}</span>
+        <span>{usage.used.toLocaleString()} / {usage.limit.toLocaleString()} tokens</span>
+      </div>
+      <div className="mt-0.5 h-1.5 bg-gray-200 rounded">
+        <div
+          className={`h-1.5 rounded ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+          style={{ width: `${share * 100}%` }}
+        />
+      </div>
+    </div>
+  )
+}
+
+// Tokens used against the daily and monthly quotas
+export default function AIUsageMeter({ usage }: { usage: AIUsage }) {
+  return (
+    <div className="text-xs text-gray-600 space-y-1">
+      <UsageBar label="Today" usage={usage.day} />
+      <UsageBar label="This month" usage={usage.month} />
+      {usage.exceeded && (
+        <div className="rounded bg-red-50 px-2 py-1 text-red-700">
+          {usage.exceeded === 'day'
+            ? "You've used today's AI quota. It resets at midnight UTC."
+            : "You've used this month's AI quota. It resets on the 1st (UTC)."}
+        </div>
+      )}
+    </div>
+  )
+}
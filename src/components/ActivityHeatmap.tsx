@@ -0,0 +1,50 @@
+import { toDayKey } from '../utils/submissionStats'
+
+const WEEKS = 53
+
+const cellColor = (count: number) => {
+  if (count === 0) return 'bg-gray-100'
+  if (count < 3) return 'bg-green-200'
+  if (count < 6) return 'bg-green-400'
+  return 'bg-green-600'
+}
+
+// One column per week, Sunday at the top, ending with the current week
+export default function ActivityHeatmap({ activity }: { activity: Record<string, number> }) {
+  const today = new Date()
+  const start = new Date(today)
+  start.setDate(today.getDate() - today.getDay() - (WEEKS - 1) * 7)
+
+  const weeks: Date[][] = []
+  for (let week = 0; week < WEEKS; week++) {
+    const days: Date[] = []
+    for (let day = 0; day < 7; day++) {
+      const date = new Date(start)
+      date.setDate(start.getDate() + week * 7 + day)
+      days.push(date)
+    }
+    weeks.push(days)
+  }
+
+  return (
+    <div className="flex gap-[3px] overflow-x-auto">
+      {weeks.map((days, idx) => (
+        <div key={idx} className="flex flex-col gap-[3px]">
+          {days.map(date => {
+            const key = toDayKey(date)
+            const count = activity[key] || 0
+            return date > today ? (
+              <div key={key} className="w-3 h-3" />
+            ) : (
+              <div
+                key={key}
+                className={`w-3 h-3 rounded-sm ${cellColor(count)}`}
+                title={`${count} submission${count === 1 ? '' : 's'} on ${date.toLocaleDateString()}`}
+              />
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+}
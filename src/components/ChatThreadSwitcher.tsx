@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { ChatThreads } from '../hooks/useChatThreads';
+
+export default function ChatThreadSwitcher({
+  threads,
+  activeThreadId,
+  busy,
+  selectThread,
+  newThread,
+  renameThread,
+  deleteThread,
+}: ChatThreads) {
+  const [renaming, setRenaming] = useState(false);
+  const [title, setTitle] = useState('');
+  const activeThread = threads.find(thread => thread.id === activeThreadId);
+
+  async function handleRename() {
+    if (!activeThread || !title.trim()) return;
+    try {
+      await renameThread(activeThread.id, title.trim());
+      setRenaming(false);
+    } catch (err) {
+      console.error('Error renaming chat thread:', err);
+    }
+  }
+
+  async function handleDelete() {
+    if (!activeThread || !window.confirm(`Delete "${activeThread.title}"? This can't be undone.`)) return;
+    try {
+      await deleteThread(activeThread.id);
+    } catch (err) {
+      console.error('Error deleting chat thread:', err);
+    }
+  }
+
+  if (renaming && activeThread) {
+    return (
+      <div className="flex items-center gap-2 mb-2">
+        <input
+          className="flex-1 min-w-0 border rounded px-2 py-1 text-sm"
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') handleRename();
+            if (e.key === 'Escape') setRenaming(false);
+          }}
+          autoFocus
+        />
+        <button className="text-sm text-indigo-600 hover:underline" onClick={handleRename}>Save</button>
+        <button className="text-sm text-gray-600 hover:underline" onClick={() => setRenaming(false)}>Cancel</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 mb-2">
+      <select
+        className="flex-1 min-w-0 border rounded px-2 py-1 text-sm"
+        value={activeThreadId ?? ''}
+        onChange={e => selectThread(e.target.value)}
+        disabled={busy}
+      >
+        {!activeThreadId && <option value="">New chat</option>}
+        {threads.map(thread => (
+          <option key={thread.id} value={thread.id}>{thread.title}</option>
+        ))}
+      </select>
+      <button
+        className="text-sm text-indigo-600 hover:underline disabled:opacity-50"
+        onClick={newThread}
+        disabled={busy || !activeThreadId}
+      >
+        New
+      </button>
+      <button
+        className="text-sm text-gray-600 hover:underline disabled:opacity-50"
+        onClick={() => {
+          setTitle(activeThread?.title ?? '');
+          setRenaming(true);
+        }}
+        disabled={!activeThread}
+      >
+        Rename
+      </button>
+      <button
+        className="text-sm text-red-600 hover:underline disabled:opacity-50"
+        onClick={handleDelete}
+        disabled={busy || !activeThread}
+      >
+        Delete
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { useRef, useState } from 'react'
+import MonacoEditor, { EditorProps } from '@monaco-editor/react'
+import type * as monaco from 'monaco-editor'
+import { useEditorSettings, useKeybindingMode } from '../hooks/useEditorSettings'
+
+// <MonacoEditor> with the user's editor settings and keybinding mode applied.
+// Settings override the options passed in, and theme always comes from them.
+export default function CodeEditor({ options, onMount, ...props }: Omit<EditorProps, 'theme'>) {
+  const { settings, theme, options: settingsOptions } = useEditorSettings()
+  const [editor, setEditor] = useState<monaco.editor.IStandaloneCodeEditor | null>(null)
+  const statusBar = useRef<HTMLDivElement>(null)
+  useKeybindingMode(editor, settings.keybindings, statusBar)
+
+  return (
+    <div>
+      <MonacoEditor
+        {...props}
+        theme={theme}
+        options={{ ...options, ...settingsOptions }}
+        onMount={(mountedEditor, monacoInstance) => {
+          setEditor(mountedEditor)
+          onMount?.(mountedEditor, monacoInstance)
+        }}
+      />
+      {settings.keybindings === 'vim' && (
+        <div ref={statusBar} className="h-6 px-2 font-mono text-xs leading-6 bg-gray-800 text-gray-100" />
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,9 @@
 import { useAuth } from '../contexts/AuthContext'
 import { Link } from 'react-router-dom'
+import { hasRole } from '../services/userService'
 
 export default function Layout({ children }: { children: React.ReactNode }) {
-  const { currentUser, logout } = useAuth()
+  const { currentUser, role, logout } = useAuth()
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -13,9 +14,24 @@ export default function Layout({ children }: { children: React.ReactNode }) {
               <div className="flex-shrink-0 flex items-center">
                 <Link to="/" className="text-xl font-bold text-indigo-600 hover:underline">Code Editor</Link>
               </div>
+              {hasRole(role, 'admin') && (
+                <div className="ml-6 flex items-center gap-4">
+                  <Link to="/admin/problems" className="text-sm font-medium text-gray-700 hover:text-indigo-600">
+                    Manage problems
+                  </Link>
+                  <Link to="/admin/ai-usage" className="text-sm font-medium text-gray-700 hover:text-indigo-600">
+                    AI usage
+                  </Link>
+                </div>
+              )}
             </div>
             <div className="flex items-center">
-              <span className="text-gray-700 mr-4">{currentUser?.email}</span>
+              <Link to="/profile" className="text-gray-700 mr-4 hover:text-indigo-600 hover:underline">
+                {currentUser?.email}
+              </Link>
+              <Link to="/settings" className="text-sm font-medium text-gray-700 mr-4 hover:text-indigo-600">
+                Settings
+              </Link>
               <button
                 onClick={() => logout()}
                 className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
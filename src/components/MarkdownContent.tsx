@@ -0,0 +1,60 @@
+import { useState } from 'react'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeKatex from 'rehype-katex'
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
+import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
+import 'katex/dist/katex.min.css'
+
+// Custom renderer for code blocks with copy button
+function CodeBlock({ node, inline, className, children, ...props }: any) {
+  const match = /language-(\w+)/.exec(className || '')
+  const code = String(children).replace(/\n$/, '')
+  const [copied, setCopied] = useState(false)
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 1200)
+  }
+  return !inline && match ? (
+    <div className="relative group">
+      <SyntaxHighlighter style={vscDarkPlus} language={match[1]} PreTag="div" {...props}>
+        {code}
+      </SyntaxHighlighter>
+      <button
+        onClick={handleCopy}
+        className="absolute top-2 right-2 bg-gray-700 text-white text-xs px-2 py-1 rounded opacity-80 group-hover:opacity-100"
+      >
+        {copied ? 'Copied!' : 'Copy'}
+      </button>
+    </div>
+  ) : (
+    <code className={className} {...props}>{children}</code>
+  )
+}
+
+// GitHub-flavored markdown with syntax-highlighted code and $inline$ / $$block$$ math
+export default function MarkdownContent({ children }: { children: string }) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[rehypeKatex]}
+      components={{
+        code: CodeBlock,
+        strong: ({ node, ...props }) => <strong className="font-bold" {...props} />,
+        ul: ({ node, ...props }) => <ul className="list-disc ml-6" {...props} />,
+        ol: ({ node, ...props }) => <ol className="list-decimal ml-6" {...props} />,
+        p: ({ node, ...props }) => <p className="my-2" {...props} />,
+        h1: ({ node, ...props }) => <h1 className="text-xl font-semibold mt-4 mb-2" {...props} />,
+        h2: ({ node, ...props }) => <h2 className="text-lg font-semibold mt-4 mb-2" {...props} />,
+        h3: ({ node, ...props }) => <h3 className="font-semibold mt-3 mb-1" {...props} />,
+        table: ({ node, ...props }) => <table className="my-2 border text-sm" {...props} />,
+        th: ({ node, ...props }) => <th className="border px-2 py-1 bg-gray-50" {...props} />,
+        td: ({ node, ...props }) => <td className="border px-2 py-1" {...props} />,
+      }}
+    >
+      {children}
+    </ReactMarkdown>
+  )
+}
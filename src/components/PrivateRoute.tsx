@@ -1,12 +1,18 @@
 import { Navigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
+import { hasRole, Role } from '../services/userService'
+import Forbidden from '../pages/Forbidden'
 
 interface PrivateRouteProps {
   children: React.ReactNode
+  // Any one of these roles grants access
+  requiredRole?: Role | Role[]
 }
 
-export default function PrivateRoute({ children }: PrivateRouteProps) {
-  const { currentUser } = useAuth()
+export default function PrivateRoute({ children, requiredRole }: PrivateRouteProps) {
+  const { currentUser, role } = useAuth()
 
-  return currentUser ? <>{children}</> : <Navigate to="/login" />
+  if (!currentUser) return <Navigate to="/login" />
+  if (requiredRole && !hasRole(role, requiredRole)) return <Forbidden />
+  return <>{children}</>
 } 
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import { Problem } from '../services/problemService'
+import MarkdownContent from './MarkdownContent'
+
+function Section({ title, children }: { title: string, children: React.ReactNode }) {
+  return (
+    <div className="mt-4">
+      <h4 className="font-semibold text-gray-900">{title}</h4>
+      {children}
+    </div>
+  )
+}
+
+export default function ProblemStatement({ problem }: { problem: Problem }) {
+  const [hintsShown, setHintsShown] = useState(0)
+  const hints = problem.hints || []
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+      <div className="px-4 py-5 sm:px-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">
+          {problem.title}
+        </h3>
+        <p className="mt-1 max-w-2xl text-sm text-gray-500">
+          Difficulty: {problem.difficulty}
+        </p>
+        {problem.tags && problem.tags.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {problem.tags.map(tag => (
+              <span key={tag} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                {tag}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="border-t border-gray-200 px-4 py-5 sm:px-6 text-gray-800">
+        <MarkdownContent>{problem.statement || problem.description}</MarkdownContent>
+        {problem.inputFormat && (
+          <Section title="Input">
+            <MarkdownContent>{problem.inputFormat}</MarkdownContent>
+          </Section>
+        )}
+        {problem.outputFormat && (
+          <Section title="Output">
+            <MarkdownContent>{problem.outputFormat}</MarkdownContent>
+          </Section>
+        )}
+        {problem.constraints && problem.constraints.length > 0 && (
+          <Section title="Constraints">
+            <MarkdownContent>{problem.constraints.map(constraint => `- ${constraint}`).join('\n')}</MarkdownContent>
+          </Section>
+        )}
+        {problem.examples?.map((example, idx) => (
+          <Section key={idx} title={`Example ${idx + 1}`}>
+            <div className="mt-1 grid grid-cols-1 gap-2 sm:grid-cols-2">
+              <div>
+                <div className="text-xs text-gray-500">Input</div>
+                <pre className="bg-gray-50 border rounded p-2 text-sm overflow-x-auto">{example.input}</pre>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Output</div>
+                <pre className="bg-gray-50 border rounded p-2 text-sm overflow-x-auto">{example.output}</pre>
+              </div>
+            </div>
+            {example.explanation && (
+              <div className="mt-1 text-sm">
+                <MarkdownContent>{example.explanation}</MarkdownContent>
+              </div>
+            )}
+          </Section>
+        ))}
+        {hints.length > 0 && (
+          <Section title="Hints">
+            {hints.slice(0, hintsShown).map((hint, idx) => (
+              <div key={idx} className="mt-2 rounded bg-yellow-50 px-3 py-2 text-sm">
+                <span className="font-medium">Hint {idx + 1}: </span>
+                <MarkdownContent>{hint}</MarkdownContent>
+              </div>
+            ))}
+            {hintsShown < hints.length && (
+              <button
+                onClick={() => setHintsShown(count => count + 1)}
+                className="mt-2 text-sm text-indigo-600 hover:underline"
+              >
+                Show hint {hintsShown + 1} of {hints.length}
+              </button>
+            )}
+          </Section>
+        )}
+      </div>
+    </div>
+  )
+}
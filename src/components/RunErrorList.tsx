@@ -0,0 +1,27 @@
+import { ParsedError } from '../utils/errorParsers'
+
+interface RunErrorListProps {
+  errors: ParsedError[]
+  onSelect: (error: ParsedError) => void
+}
+
+export default function RunErrorList({ errors, onSelect }: RunErrorListProps) {
+  if (errors.length === 0) return null
+  return (
+    <ul className="mb-2 space-y-1">
+      {errors.map((error, idx) => (
+        <li key={idx}>
+          <button
+            onClick={() => onSelect(error)}
+            className={`text-left text-sm hover:underline ${error.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}
+          >
+            <span className="font-mono">
+              Line {error.line}{error.column != null ? `:${error.column}` : ''}
+            </span>
+            {' '}{error.message}
+          </button>
+        </li>
+      ))}
+    </ul>
+  )
+}
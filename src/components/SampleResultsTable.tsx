@@ -0,0 +1,86 @@
+import { Fragment, useState } from 'react'
+import { normalizeOutput, SampleResult } from '../services/judgeService'
+import { diffLines } from '../utils/lineDiff'
+import { VerdictBadge } from './SubmissionVerdict'
+
+function OutputDiff({ expected, actual }: { expected: string, actual: string }) {
+  const lines = diffLines(normalizeOutput(expected), normalizeOutput(actual))
+  return (
+    <pre className="text-xs bg-gray-50 border rounded p-2 overflow-x-auto">
+      {lines.map((line, idx) => (
+        <div
+          key={idx}
+          className={
+            line.type === 'removed'
+              ? 'bg-red-100 text-red-800'
+              : line.type === 'added'
+              ? 'bg-green-100 text-green-800'
+              : 'text-gray-700'
+          }
+        >
+          {line.type === 'removed' ? '- ' : line.type === 'added' ? '+ ' : '  '}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+export default function SampleResultsTable({ results }: { results: SampleResult[] }) {
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const passed = results.filter(result => result.verdict === 'Accepted').length
+
+  return (
+    <div className="mt-4">
+      <div className="text-sm text-gray-600 mb-2">
+        {passed} / {results.length} samples passed
+      </div>
+      <table className="w-full text-sm border">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="text-left px-2 py-1">Sample</th>
+            <th className="text-left px-2 py-1">Result</th>
+            <th className="px-2 py-1"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((result, idx) => (
+            <Fragment key={idx}>
+              <tr className="border-t">
+                <td className="px-2 py-1">{result.sample.name}</td>
+                <td className="px-2 py-1"><VerdictBadge verdict={result.verdict} /></td>
+                <td className="px-2 py-1 text-right">
+                  <button
+                    className="text-indigo-600 hover:underline"
+                    onClick={() => setExpanded(expanded === idx ? null : idx)}
+                  >
+                    {expanded === idx ? 'Hide' : 'Details'}
+                  </button>
+                </td>
+              </tr>
+              {expanded === idx && (
+                <tr>
+                  <td colSpan={3} className="px-2 pb-2">
+                    <div className="text-xs text-gray-500 mt-1">Input</div>
+                    <pre className="text-xs bg-gray-50 border rounded p-2 overflow-x-auto">{result.sample.input}</pre>
+                    {result.errorOutput ? (
+                      <>
+                        <div className="text-xs text-gray-500 mt-1">Error</div>
+                        <pre className="text-xs text-red-600 whitespace-pre-wrap break-words">{result.errorOutput}</pre>
+                      </>
+                    ) : (
+                      <>
+                        <div className="text-xs text-gray-500 mt-1">Expected (-) vs actual (+)</div>
+                        <OutputDiff expected={result.sample.expectedOutput} actual={result.actualOutput} />
+                      </>
+                    )}
+                  </td>
+                </tr>
+              )}
+            </Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { getUserSubmissionsForProblem, Submission } from '../services/submissionService'
+import { getLanguageLabel } from '../config/languages'
+import { useEditorSettings } from '../hooks/useEditorSettings'
+import { VerdictBadge } from './SubmissionVerdict'
+import AIHelpSummary from './AIHelpSummary'
+
+interface SubmissionHistoryProps {
+  userId: string
+  problemId: string
+  currentCode: string
+  currentLanguage: string
+  // Bump to reload the list, e.g. after a new submission
+  refreshKey: number
+  onRestore: (submission: Submission) => void
+}
+
+export default function SubmissionHistory({
+  userId,
+  problemId,
+  currentCode,
+  currentLanguage,
+  refreshKey,
+  onRestore,
+}: SubmissionHistoryProps) {
+  const [submissions, setSubmissions] = useState<Submission[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<Submission | null>(null)
+  const { theme, options } = useEditorSettings()
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    getUserSubmissionsForProblem(userId, problemId)
+      .then(list => {
+        if (!cancelled) setSubmissions(list)
+      })
+      .catch(error => console.error('Error fetching submissions:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [userId, problemId, refreshKey])
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg mt-8">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">
+          Submission History
+        </h3>
+        {loading ? (
+          <div className="text-sm text-gray-500">Loading submissions...</div>
+        ) : submissions.length === 0 ? (
+          <div className="text-sm text-gray-500">No submissions yet.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="text-left px-2 py-1">Submitted</th>
+                <th className="text-left px-2 py-1">Language</th>
+                <th className="text-left px-2 py-1">Verdict</th>
+                <th className="text-left px-2 py-1">AI help</th>
+                <th className="px-2 py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {submissions.map(submission => (
+                <tr key={submission.id} className="border-t">
+                  <td className="px-2 py-1">{submission.createdAt.toLocaleString()}</td>
+                  <td className="px-2 py-1">{getLanguageLabel(submission.language)}</td>
+                  <td className="px-2 py-1">
+                    {submission.verdict ? <VerdictBadge verdict={submission.verdict} /> : <span className="text-gray-400">Not judged</span>}
+                  </td>
+                  <td className="px-2 py-1"><AIHelpSummary submission={submission} /></td>
+                  <td className="px-2 py-1 text-right">
+                    <button className="text-indigo-600 hover:underline" onClick={() => setSelected(submission)}>
+                      View diff
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      {selected && (
+        <div className="fixed inset-0 flex items-center justify-center z-50 bg-black bg-opacity-30">
+          <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-5xl">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold">
+                Submission from {selected.createdAt.toLocaleString()}
+              </h2>
+              {selected.verdict && <VerdictBadge verdict={selected.verdict} />}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mb-1">
+              <span>Submitted code</span>
+              <span>Current editor</span>
+            </div>
+            <DiffEditor
+              height="60vh"
+              language={selected.language}
+              theme={theme}
+              original={selected.code}
+              modified={currentCode}
+              options={{ ...options, readOnly: true, renderSideBySide: true }}
+            />
+            <div className="flex justify-end items-center gap-2 mt-4">
+              {selected.language !== currentLanguage && (
+                <span className="text-sm text-gray-500 mr-auto">
+                  Switch the editor to {getLanguageLabel(selected.language)} to restore this submission.
+                </span>
+              )}
+              <button
+                className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50"
+                disabled={selected.language !== currentLanguage}
+                onClick={() => {
+                  onRestore(selected)
+                  setSelected(null)
+                }}
+              >
+                Restore into editor
+              </button>
+              <button
+                className="px-4 py-2 bg-gray-300 text-gray-800 rounded hover:bg-gray-400"
+                onClick={() => setSelected(null)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { JudgeResult, Verdict } from '../services/judgeService'
+
+const VERDICT_STYLES: Record<Verdict, string> = {
+  'Accepted': 'bg-green-100 text-green-800',
+  'Wrong Answer': 'bg-red-100 text-red-800',
+  'Time Limit Exceeded': 'bg-yellow-100 text-yellow-800',
+  'Runtime Error': 'bg-orange-100 text-orange-800',
+  'Compilation Error': 'bg-gray-200 text-gray-800',
+}
+
+export function VerdictBadge({ verdict }: { verdict: Verdict }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${VERDICT_STYLES[verdict]}`}>
+      {verdict}
+    </span>
+  )
+}
+
+export default function SubmissionVerdict({ result }: { result: JudgeResult }) {
+  return (
+    <div className="mt-4 border rounded-lg p-3">
+      <div className="flex items-center justify-between">
+        <VerdictBadge verdict={result.verdict} />
+        <span className="text-sm text-gray-600">
+          {result.passed} / {result.total} tests passed
+        </span>
+      </div>
+      <ul className="mt-2 space-y-1 text-sm">
+        {result.results.map((test, idx) => (
+          <li key={idx} className="flex items-center justify-between">
+            <span>Test {idx + 1}</span>
+            <span className="flex items-center gap-2">
+              {test.time != null && <span className="text-gray-500">{test.time}s</span>}
+              {test.memory != null && <span className="text-gray-500">{test.memory} KB</span>}
+              <VerdictBadge verdict={test.verdict} />
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import type * as monaco from 'monaco-editor'
+import { useEditorSettings } from '../hooks/useEditorSettings'
+import { Hunk, LineRange, ProposalMode } from '../utils/suggestionPatch'
+
+export interface SuggestionReviewState {
+  // The code block from the AI reply
+  code: string
+  original: string
+  proposed: string
+  mode: ProposalMode
+  // As passed to the review, so it can be rebuilt against changed code
+  target?: LineRange | null
+  hunks: Hunk[]
+}
+
+interface SuggestionReviewProps {
+  review: SuggestionReviewState
+  language: string
+  onApply: (hunks: Hunk[]) => void
+  onReject: () => void
+}
+
+const MODE_LABELS: Record<ProposalMode, string> = {
+  'replace-selection': 'Replaces the selected code',
+  'full-file': 'Updates the whole file',
+  'insert': 'Inserts at the cursor',
+}
+
+const describeHunk = ({ start, end, lines }: Hunk) => {
+  const removed = end - start
+  const where = removed > 0 ? `Lines ${start + 1}-${end}` : `After line ${start}`
+  return `${where}: -${removed} +${lines.length}`
+}
+
+// The AI's suggestion as a diff against the current file, with each change
+// accepted or rejected on its own before anything touches the editor
+export default function SuggestionReview({ review, language, onApply, onReject }: SuggestionReviewProps) {
+  const { theme, options } = useEditorSettings()
+  const [rejected, setRejected] = useState<Set<number>>(new Set())
+  const [diffEditor, setDiffEditor] = useState<monaco.editor.IStandaloneDiffEditor | null>(null)
+  const accepted = review.hunks.filter((_, idx) => !rejected.has(idx))
+
+  const toggle = (idx: number) => {
+    setRejected(prev => {
+      const next = new Set(prev)
+      if (next.has(idx)) next.delete(idx)
+      else next.add(idx)
+      return next
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 bg-black bg-opacity-30">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-6xl">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-lg font-semibold">Review AI suggestion</h2>
+          <span className="text-sm text-gray-500">{MODE_LABELS[review.mode]}</span>
+        </div>
+        {review.hunks.length === 0 ? (
+          <div className="text-sm text-gray-600 mb-4">The suggestion matches your current code.</div>
+        ) : (
+          <div className="flex gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span>Current code</span>
+                <span>With suggestion</span>
+              </div>
+              <DiffEditor
+                height="60vh"
+                language={language}
+                theme={theme}
+                original={review.original}
+                modified={review.proposed}
+                options={{ ...options, readOnly: true, renderSideBySide: true }}
+                onMount={setDiffEditor}
+              />
+            </div>
+            <ul className="w-56 shrink-0 space-y-1 overflow-y-auto max-h-[60vh] text-sm">
+              {review.hunks.map((hunk, idx) => (
+                <li key={idx} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!rejected.has(idx)}
+                    onChange={() => toggle(idx)}
+                    aria-label={`Accept change ${idx + 1}`}
+                  />
+                  <button
+                    className="text-left hover:underline"
+                    onClick={() => diffEditor?.getModifiedEditor().revealLineInCenter(hunk.proposedLine)}
+                  >
+                    {describeHunk(hunk)}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+            disabled={accepted.length === 0}
+            onClick={() => onApply(accepted)}
+          >
+            {accepted.length === review.hunks.length
+              ? 'Accept all'
+              : `Accept ${accepted.length} of ${review.hunks.length} changes`}
+          </button>
+          <button
+            className="px-4 py-2 bg-gray-300 text-gray-800 rounded hover:bg-gray-400"
+            onClick={onReject}
+          >
+            Reject
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
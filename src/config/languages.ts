@@ -0,0 +1,16 @@
+export interface LanguageOption {
+  // Monaco language id, also used as the key for starter code, drafts and runners
+  id: string
+  label: string
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { id: 'javascript', label: 'JavaScript' },
+  { id: 'typescript', label: 'TypeScript' },
+  { id: 'python', label: 'Python' },
+  { id: 'java', label: 'Java' },
+  { id: 'cpp', label: 'C++' },
+]
+
+export const getLanguageLabel = (id: string): string =>
+  LANGUAGES.find(language => language.id === id)?.label ?? id
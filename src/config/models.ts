@@ -0,0 +1,54 @@
+export interface ModelConfig {
+  // Sent to the provider as `model`
+  id: string
+  label: string
+  // Total tokens the model accepts, prompt and reply together
+  contextWindow: number
+  // Longest reply to ask for
+  maxTokens: number
+  temperature: number
+}
+
+const DEFAULT_MODELS: ModelConfig[] = [
+  { id: 'gpt-4.1-mini', label: 'GPT-4.1 Mini', contextWindow: 1047576, maxTokens: 1024, temperature: 0.2 },
+  { id: 'gpt-4o', label: 'GPT-4o', contextWindow: 128000, maxTokens: 1024, temperature: 0.2 },
+]
+
+const isModelConfig = (value: unknown): value is ModelConfig => {
+  if (typeof value !== 'object' || value === null) return false
+  const model = value as ModelConfig
+  return typeof model.id === 'string' &&
+    typeof model.label === 'string' &&
+    typeof model.contextWindow === 'number' &&
+    typeof model.maxTokens === 'number' &&
+    typeof model.temperature === 'number'
+}
+
+let catalog: ModelConfig[] | null = null
+
+// VITE_LLM_MODELS replaces the built-in catalog with a JSON array of ModelConfig,
+// e.g. the models served by a local Ollama
+export const getModelCatalog = (): ModelConfig[] => {
+  if (!catalog) {
+    const configured = import.meta.env.VITE_LLM_MODELS
+    if (!configured) {
+      catalog = DEFAULT_MODELS
+    } else {
+      const parsed: unknown = JSON.parse(configured)
+      if (!Array.isArray(parsed) || parsed.length === 0 || !parsed.every(isModelConfig)) {
+        throw new Error('VITE_LLM_MODELS must be a non-empty JSON array of { id, label, contextWindow, maxTokens, temperature }')
+      }
+      catalog = parsed
+    }
+  }
+  return catalog
+}
+
+// VITE_LLM_DEFAULT_MODEL, falling back to the first model in the catalog
+export const getDefaultModel = (): ModelConfig => {
+  const models = getModelCatalog()
+  return models.find(model => model.id === import.meta.env.VITE_LLM_DEFAULT_MODEL) ?? models[0]
+}
+
+export const getModel = (id: string): ModelConfig =>
+  getModelCatalog().find(model => model.id === id) ?? getDefaultModel()
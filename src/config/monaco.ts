@@ -0,0 +1,16 @@
+import { loader } from '@monaco-editor/react'
+import * as monaco from 'monaco-editor'
+import EditorWorker from 'monaco-editor/esm/vs/editor/editor.worker?worker'
+import TsWorker from 'monaco-editor/esm/vs/language/typescript/ts.worker?worker'
+
+// Bundle Monaco instead of loading it from the CDN so that the Vim and Emacs
+// keybinding packages, which import monaco-editor themselves, drive the same
+// instance as the editors on the page.
+self.MonacoEnvironment = {
+  getWorker(_workerId, label) {
+    if (label === 'typescript' || label === 'javascript') return new TsWorker()
+    return new EditorWorker()
+  },
+}
+
+loader.config({ monaco })
@@ -8,15 +8,28 @@ import {
   onAuthStateChanged
 } from 'firebase/auth'
 import { auth } from '../config/firebase'
-import { createUserDocument, UserData } from '../services/userService'
+import {
+  createUserDocument,
+  getRole,
+  getUserData,
+  Role,
+  updateUserPreferences,
+  UserData,
+  UserPreferences
+} from '../services/userService'
 
 interface AuthContextType {
   currentUser: User | null
   userData: UserData | null
+  // 'student' until the user document has loaded
+  role: Role
   loading: boolean
   signup: (email: string, password: string) => Promise<UserCredential>
   login: (email: string, password: string) => Promise<UserCredential>
   logout: () => Promise<void>
+  // Persists the given preference keys and applies them locally right away
+  updatePreferences: (preferences: UserPreferences) => Promise<void>
+  refreshUserData: () => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextType | null>(null)
@@ -31,7 +44,7 @@ export const useAuth = () => {
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [currentUser, setCurrentUser] = useState<User | null>(null)
-  const [userData, ] = useState<UserData | null>(null)
+  const [userData, setUserData] = useState<UserData | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -39,6 +52,13 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       setCurrentUser(user)
       if (user) {
         await createUserDocument(user)
+        try {
+          setUserData(await getUserData(user.uid))
+        } catch (error) {
+          console.error('Error fetching user data:', error)
+        }
+      } else {
+        setUserData(null)
       }
       setLoading(false)
     })
@@ -64,13 +84,40 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   const logout = () => signOut(auth)
 
+  const refreshUserData = async () => {
+    if (!currentUser) return
+    setUserData(await getUserData(currentUser.uid))
+  }
+
+  const updatePreferences = async (preferences: UserPreferences) => {
+    if (!currentUser) return
+    const previous = userData
+    setUserData(prev => prev && {
+      ...prev,
+      preferences: {
+        ...prev.preferences,
+        ...preferences,
+        editorSettings: { ...prev.preferences?.editorSettings, ...preferences.editorSettings }
+      }
+    })
+    try {
+      await updateUserPreferences(currentUser.uid, preferences)
+    } catch (error) {
+      setUserData(previous)
+      throw error
+    }
+  }
+
   const value = {
     currentUser,
     userData,
+    role: getRole(userData),
     loading,
     signup,
     login,
-    logout
+    logout,
+    updatePreferences,
+    refreshUserData
   }
 
   return (
@@ -7,9 +7,13 @@ interface ImportMetaEnv {
   readonly VITE_FIREBASE_STORAGE_BUCKET: string
   readonly VITE_FIREBASE_MESSAGING_SENDER_ID: string
   readonly VITE_FIREBASE_APP_ID: string
-  readonly VITE_JUDGE0_API_KEY: string
-  readonly VITE_OPENAI_API_KEY: string
-  readonly VITE_OPENAI_MODEL: string
+  readonly VITE_API_URL?: string
+  readonly VITE_CODE_RUNNER?: 'proxy' | 'fake'
+  readonly VITE_BROWSER_RUNNER?: string
+  readonly VITE_LLM_PROVIDER?: 'proxy' | 'compatible' | 'mock'
+  readonly VITE_LLM_BASE_URL?: string
+  readonly VITE_LLM_MODELS?: string
+  readonly VITE_LLM_DEFAULT_MODEL?: string
 }
 
 interface ImportMeta {
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react'
+import { AIHelp, getAIHelp } from '../services/tutorService'
+
+const NO_HELP: AIHelp = { hintsUsed: 0, aiRequests: 0 }
+
+// The AI help a user has had on a problem. The API server keeps the stored
+// counts; requests are added here as they are sent so the sidebar stays current.
+export function useAIHelp(userId: string | undefined, problemId: string | undefined) {
+  const [help, setHelp] = useState<AIHelp>(NO_HELP)
+
+  useEffect(() => {
+    setHelp(NO_HELP)
+    if (!userId || !problemId) return
+    let cancelled = false
+    getAIHelp(userId, problemId)
+      .then(loaded => {
+        // Keep anything counted while loading
+        if (!cancelled) setHelp(prev => ({
+          hintsUsed: Math.max(prev.hintsUsed, loaded.hintsUsed),
+          aiRequests: prev.aiRequests + loaded.aiRequests,
+        }))
+      })
+      .catch(error => console.error('Error loading AI help:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [userId, problemId])
+
+  // `hintsUsed` is the rung reached when the request was for a hint
+  const recordRequest = useCallback((hintsUsed?: number) => {
+    setHelp(prev => ({
+      hintsUsed: hintsUsed !== undefined ? Math.max(prev.hintsUsed, hintsUsed) : prev.hintsUsed,
+      aiRequests: prev.aiRequests + 1,
+    }))
+  }, [])
+
+  return { help, recordRequest }
+}
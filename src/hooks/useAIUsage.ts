@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react'
+import { AIUsage, getAIUsage, tracksAIUsage } from '../services/aiUsageService'
+
+// The signed-in user's AI quota, refreshed whenever `busy` goes back to false,
+// i.e. after each reply. Null when usage isn't tracked or couldn't be loaded.
+export function useAIUsage(busy: boolean) {
+  const [usage, setUsage] = useState<AIUsage | null>(null)
+
+  useEffect(() => {
+    if (busy || !tracksAIUsage()) return
+    let cancelled = false
+    getAIUsage()
+      .then(loaded => {
+        if (!cancelled) setUsage(loaded)
+      })
+      .catch(error => console.error('Error loading AI usage:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [busy])
+
+  return usage
+}
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { ChatEntry } from '../services/aiService'
+import {
+  ChatThread,
+  createChatThread,
+  deleteChatThread,
+  getChatThreads,
+  titleFromPrompt,
+  updateChatThread,
+} from '../services/chatThreadService'
+
+// What AIPrompter needs to show and switch threads
+export interface ChatThreads {
+  threads: ChatThread[]
+  // Null for a new thread that hasn't been saved yet
+  activeThreadId: string | null
+  // Switching is blocked while a reply is streaming
+  busy: boolean
+  selectThread: (threadId: string) => void
+  newThread: () => void
+  renameThread: (threadId: string, title: string) => Promise<void>
+  deleteThread: (threadId: string) => Promise<void>
+}
+
+// Keeps the sidebar chat for one problem in Firestore. The most recent thread
+// opens on load; a new thread is saved once its first reply has finished.
+export function useChatThreads(userId: string | undefined, problemId: string | undefined) {
+  const [threads, setThreads] = useState<ChatThread[]>([])
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
+  const [chat, setChat] = useState<ChatEntry[]>([])
+  const [lastSuggestedCode, setLastSuggestedCode] = useState<string | null>(null)
+  // What was last loaded or saved, so only real changes are written back
+  const saved = useRef<{ chat: ChatEntry[], lastSuggestedCode: string | null }>({ chat: [], lastSuggestedCode: null })
+  const creating = useRef<Promise<string> | null>(null)
+  const busy = chat.some(message => message.streaming)
+
+  const openThread = useCallback((thread: ChatThread | null) => {
+    const messages = thread?.messages ?? []
+    const suggested = thread?.lastSuggestedCode ?? null
+    saved.current = { chat: messages, lastSuggestedCode: suggested }
+    creating.current = null
+    setActiveThreadId(thread?.id ?? null)
+    setChat(messages)
+    setLastSuggestedCode(suggested)
+  }, [])
+
+  useEffect(() => {
+    openThread(null)
+    setThreads([])
+    if (!userId || !problemId) return
+    let cancelled = false
+    getChatThreads(userId, problemId)
+      .then(list => {
+        if (cancelled) return
+        setThreads(list)
+        openThread(list[0] ?? null)
+      })
+      .catch(error => console.error('Error loading chat threads:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [userId, problemId, openThread])
+
+  // Save after each finished reply and each handled suggestion
+  useEffect(() => {
+    if (!userId || !problemId || busy || chat.length === 0) return
+    if (chat === saved.current.chat && lastSuggestedCode === saved.current.lastSuggestedCode) return
+    // Marked before the write so re-renders while it is in flight don't repeat it
+    const previous = saved.current
+    const attempt = { chat, lastSuggestedCode }
+    saved.current = attempt
+    const update = { messages: chat, lastSuggestedCode }
+
+    const save = async () => {
+      if (activeThreadId) {
+        await updateChatThread(activeThreadId, update)
+        setThreads(prev => prev.map(thread =>
+          thread.id === activeThreadId ? { ...thread, ...update, updatedAt: new Date() } : thread
+        ))
+        return
+      }
+      // Several saves can land before the new thread's id comes back
+      if (creating.current) {
+        await updateChatThread(await creating.current, update)
+        return
+      }
+      const title = titleFromPrompt(chat.find(message => message.role === 'user')?.content ?? '')
+      const pending = createChatThread(userId, problemId, { ...update, title })
+      creating.current = pending
+      const threadId = await pending.catch(error => {
+        // The next save creates the thread again instead of waiting on this one
+        if (creating.current === pending) creating.current = null
+        throw error
+      })
+      const now = new Date()
+      setThreads(prev => [{
+        id: threadId,
+        userId,
+        problemId,
+        title,
+        ...update,
+        createdAt: now,
+        updatedAt: now,
+      }, ...prev])
+      // Unless the user has moved on to another thread in the meantime
+      if (creating.current === pending) setActiveThreadId(threadId)
+    }
+    save().catch(error => {
+      console.error('Error saving chat thread:', error)
+      // Unmark it so the next change retries, unless another thread has been opened since
+      if (saved.current === attempt) saved.current = previous
+    })
+  }, [userId, problemId, busy, chat, lastSuggestedCode, activeThreadId])
+
+  const selectThread = (threadId: string) => {
+    if (busy) return
+    const thread = threads.find(item => item.id === threadId)
+    if (thread) openThread(thread)
+  }
+
+  const newThread = () => {
+    if (!busy) openThread(null)
+  }
+
+  const renameThread = async (threadId: string, title: string) => {
+    await updateChatThread(threadId, { title })
+    setThreads(prev => prev.map(thread => thread.id === threadId ? { ...thread, title } : thread))
+  }
+
+  const deleteThread = async (threadId: string) => {
+    await deleteChatThread(threadId)
+    const remaining = threads.filter(thread => thread.id !== threadId)
+    setThreads(remaining)
+    if (threadId === activeThreadId) openThread(remaining[0] ?? null)
+  }
+
+  const threadControls: ChatThreads = {
+    threads,
+    activeThreadId,
+    busy,
+    selectThread,
+    newThread,
+    renameThread,
+    deleteThread,
+  }
+
+  return { chat, setChat, lastSuggestedCode, setLastSuggestedCode, threadControls }
+}
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { deleteDraft, Draft, loadDraft, saveDraft, subscribeToDraft } from '../services/draftService'
+
+const AUTOSAVE_DELAY_MS = 1000
+
+interface UseDraftAutosaveOptions {
+  userId: string | undefined
+  problemId: string | undefined
+  language: string
+  code: string
+  // Called when a saved draft differs from the code currently in the editor
+  onRestore: (code: string) => void
+}
+
+export function useDraftAutosave({ userId, problemId, language, code, onRestore }: UseDraftAutosaveOptions) {
+  const [restoredAt, setRestoredAt] = useState<Date | null>(null)
+  const [conflict, setConflict] = useState<Draft | null>(null)
+  // Autosave only starts once the draft for the current key has been loaded
+  const draftKey = `${userId}/${problemId}/${language}`
+  const [loadedKey, setLoadedKey] = useState<string | null>(null)
+  const pendingCode = useRef<string | null>(null)
+  const baseRevision = useRef(0)
+  const lastSavedCode = useRef<string | null>(null)
+  const codeRef = useRef(code)
+  codeRef.current = code
+  const onRestoreRef = useRef(onRestore)
+  onRestoreRef.current = onRestore
+  // Saves still in flight by draft key; a flushed save can outlive its key
+  const savesInFlight = useRef(new Map<string, Promise<void>>())
+  const activeKey = useRef(draftKey)
+
+  // Load the saved draft whenever the user, problem or language changes
+  useEffect(() => {
+    const key = `${userId}/${problemId}/${language}`
+    activeKey.current = key
+    setLoadedKey(null)
+    setConflict(null)
+    setRestoredAt(null)
+    baseRevision.current = 0
+    lastSavedCode.current = null
+    if (!userId || !problemId) return
+    let cancelled = false
+    // Coming back to a language whose last edits are still being saved would
+    // otherwise load, and restore, the draft from before them
+    const pendingSave = savesInFlight.current.get(key) ?? Promise.resolve()
+    pendingSave.then(() => loadDraft(userId, problemId, language)).then(draft => {
+      if (cancelled) return
+      if (draft) {
+        baseRevision.current = draft.revision
+        lastSavedCode.current = draft.code
+        if (draft.code !== codeRef.current) {
+          onRestoreRef.current(draft.code)
+          setRestoredAt(draft.updatedAt)
+        }
+      } else {
+        lastSavedCode.current = codeRef.current
+      }
+      setLoadedKey(key)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [userId, problemId, language])
+
+  // Watch for saves from other tabs
+  useEffect(() => {
+    if (!userId || !problemId) return
+    return subscribeToDraft(userId, problemId, language, (draft) => {
+      if (draft.revision <= baseRevision.current) return
+      if (draft.code === codeRef.current) {
+        baseRevision.current = draft.revision
+        lastSavedCode.current = draft.code
+        return
+      }
+      setConflict(draft)
+    })
+  }, [userId, problemId, language])
+
+  const save = useCallback((codeToSave: string) => {
+    if (!userId || !problemId) return
+    const key = `${userId}/${problemId}/${language}`
+    const saving = saveDraft(userId, problemId, language, codeToSave, baseRevision.current)
+      .then(result => {
+        // The user has moved to another language or problem; its load reads this save back
+        if (activeKey.current !== key) return
+        if (result.status === 'conflict') {
+          setConflict(result.remote)
+        } else {
+          baseRevision.current = result.draft.revision
+          lastSavedCode.current = codeToSave
+        }
+      })
+      .catch(error => {
+        // saveDraft cached the code locally; Firestore catches up on the next save
+        console.error('Error saving draft:', error)
+      })
+    const inFlight = Promise.all([savesInFlight.current.get(key), saving]).then(() => {})
+    savesInFlight.current.set(key, inFlight)
+    inFlight.then(() => {
+      if (savesInFlight.current.get(key) === inFlight) savesInFlight.current.delete(key)
+    })
+  }, [userId, problemId, language])
+
+  // Debounced autosave; paused while a conflict is waiting to be resolved
+  useEffect(() => {
+    if (loadedKey !== draftKey || conflict || code === lastSavedCode.current) return
+    pendingCode.current = code
+    const timer = setTimeout(() => {
+      pendingCode.current = null
+      save(code)
+    }, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [code, loadedKey, draftKey, conflict, save])
+
+  // Flush edits still waiting on the debounce when the language or problem changes, or on unmount
+  useEffect(() => () => {
+    if (pendingCode.current !== null) {
+      save(pendingCode.current)
+      pendingCode.current = null
+    }
+  }, [save])
+
+  // Replace the editor contents with the other tab's version
+  const takeTheirs = () => {
+    if (!conflict) return
+    baseRevision.current = conflict.revision
+    lastSavedCode.current = conflict.code
+    onRestoreRef.current(conflict.code)
+    setConflict(null)
+  }
+
+  // Overwrite the other tab's version with ours on the next autosave
+  const keepMine = () => {
+    if (!conflict) return
+    baseRevision.current = conflict.revision
+    lastSavedCode.current = conflict.code
+    setConflict(null)
+  }
+
+  // Deletes the saved draft; `resetCode` is what the editor shows instead and is not autosaved
+  const discardDraft = async (resetCode: string) => {
+    setRestoredAt(null)
+    setConflict(null)
+    pendingCode.current = null
+    lastSavedCode.current = resetCode
+    if (!userId || !problemId) return
+    await deleteDraft(userId, problemId, language)
+    baseRevision.current = 0
+  }
+
+  return { restoredAt, conflict, takeTheirs, keepMine, discardDraft }
+}
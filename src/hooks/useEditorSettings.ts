@@ -0,0 +1,59 @@
+import { RefObject, useEffect, useMemo } from 'react'
+import type * as monaco from 'monaco-editor'
+import { useAuth } from '../contexts/AuthContext'
+import { getEditorSettings, KeybindingMode } from '../services/userService'
+
+// The signed-in user's editor settings as props for <MonacoEditor>/<DiffEditor>.
+// Both components push changed options into the live editor, so every
+// instance picks up a settings change without remounting.
+export function useEditorSettings() {
+  const { userData } = useAuth()
+  const settings = getEditorSettings(userData)
+  const { fontSize, tabSize, wordWrap, minimap } = settings
+
+  const options = useMemo<monaco.editor.IStandaloneEditorConstructionOptions>(() => ({
+    fontSize,
+    tabSize,
+    // Otherwise Monaco guesses the indentation from the file and ignores tabSize
+    detectIndentation: false,
+    wordWrap: wordWrap ? 'on' : 'off',
+    minimap: { enabled: minimap },
+  }), [fontSize, tabSize, wordWrap, minimap])
+
+  return { settings, theme: settings.theme, options }
+}
+
+// Enables Vim or Emacs keybindings on an editor. The keymap packages are only
+// downloaded once someone turns them on. Vim writes its mode and pending
+// command into statusBar when one is given.
+export function useKeybindingMode(
+  editor: monaco.editor.IStandaloneCodeEditor | null,
+  mode: KeybindingMode,
+  statusBar?: RefObject<HTMLElement>
+) {
+  useEffect(() => {
+    if (!editor || mode === 'default') return
+    let disposed = false
+    let keymap: { dispose(): void } | null = null
+
+    const load = async () => {
+      if (mode === 'vim') {
+        const { initVimMode } = await import('monaco-vim')
+        if (!disposed) keymap = initVimMode(editor, statusBar?.current)
+      } else {
+        const { EmacsExtension } = await import('monaco-emacs')
+        if (disposed) return
+        const emacs = new EmacsExtension(editor)
+        emacs.start()
+        keymap = emacs
+      }
+    }
+    load().catch(error => console.error(`Error loading ${mode} keybindings:`, error))
+
+    return () => {
+      disposed = true
+      keymap?.dispose()
+      if (statusBar?.current) statusBar.current.textContent = ''
+    }
+  }, [editor, mode, statusBar])
+}
@@ -0,0 +1,80 @@
+import { useEffect, useRef } from 'react'
+import type * as monaco from 'monaco-editor'
+import { LANGUAGES } from '../config/languages'
+import { getInlineCompletion } from '../services/inlineCompletionService'
+
+// Waits this long after the last keystroke before asking the model
+const DEBOUNCE_MS = 400
+// Pause after a failed request, e.g. a rate limit or quota, instead of retrying on every keystroke
+const ERROR_BACKOFF_MS = 30 * 1000
+
+interface InlineCompletionOptions {
+  enabled: boolean
+  language: string
+  problemId?: string
+  problemTitle?: string
+}
+
+// AI ghost text for one editor; Tab accepts it. Monaco cancels a request as
+// soon as the user types again, which aborts the debounce wait or the call.
+export function useInlineCompletions(
+  monacoApi: typeof monaco | null,
+  editor: monaco.editor.IStandaloneCodeEditor | null,
+  { enabled, language, problemId, problemTitle }: InlineCompletionOptions
+) {
+  const context = useRef({ language, problemId, problemTitle })
+  context.current = { language, problemId, problemTitle }
+
+  useEffect(() => {
+    if (!monacoApi || !editor || !enabled) return
+    let pausedUntil = 0
+
+    const provider: monaco.languages.InlineCompletionsProvider = {
+      provideInlineCompletions: async (model, position, _context, token) => {
+        // Providers are registered per language, not per editor
+        if (model !== editor.getModel() || Date.now() < pausedUntil) return { items: [] }
+
+        const controller = new AbortController()
+        const cancelled = token.onCancellationRequested(() => controller.abort())
+        try {
+          await new Promise(resolve => setTimeout(resolve, DEBOUNCE_MS))
+          if (token.isCancellationRequested) return { items: [] }
+
+          const fullRange = model.getFullModelRange()
+          const prefix = model.getValueInRange({
+            startLineNumber: 1,
+            startColumn: 1,
+            endLineNumber: position.lineNumber,
+            endColumn: position.column,
+          })
+          const suffix = model.getValueInRange({
+            startLineNumber: position.lineNumber,
+            startColumn: position.column,
+            endLineNumber: fullRange.endLineNumber,
+            endColumn: fullRange.endColumn,
+          })
+          const text = await getInlineCompletion({ ...context.current, prefix, suffix }, controller.signal)
+          if (!text.trim() || token.isCancellationRequested) return { items: [] }
+          return {
+            items: [{
+              insertText: text,
+              range: new monacoApi.Range(position.lineNumber, position.column, position.lineNumber, position.column),
+            }],
+          }
+        } catch (error) {
+          pausedUntil = Date.now() + ERROR_BACKOFF_MS
+          console.warn(`Inline completions paused for ${ERROR_BACKOFF_MS / 1000}s:`, error instanceof Error ? error.message : error)
+          return { items: [] }
+        } finally {
+          cancelled.dispose()
+        }
+      },
+      freeInlineCompletions: () => {},
+    }
+
+    const registrations = LANGUAGES.map(({ id }) =>
+      monacoApi.languages.registerInlineCompletionsProvider(id, provider)
+    )
+    return () => registrations.forEach(registration => registration.dispose())
+  }, [monacoApi, editor, enabled])
+}
@@ -1,55 +1,178 @@
-import { useEffect, useState } from 'react'
-import { Link } from 'react-router-dom'
-import { collection, getDocs } from 'firebase/firestore'
-import { db } from '../config/firebase'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  DIFFICULTIES,
+  fetchProblemsPage,
+  getProblemTags,
+  ProblemCursor,
+  ProblemSort,
+  PROBLEMS_PAGE_SIZE,
+  ProblemSummary,
+} from '../services/problemService'
+import { getUserProblemStatuses, ProblemStatus } from '../services/submissionService'
 
-interface Problem {
-  id: string
-  title: string
-  difficulty: string
-  description: string
-}
+type StatusFilter = '' | ProblemStatus | 'unattempted'
+
+const SORTS: ProblemSort[] = ['title', '-title', 'difficulty', '-difficulty']
 
 export default function Dashboard() {
-  const [problems, setProblems] = useState<Problem[]>([])
-  const [loading, setLoading] = useState(true)
+  const { currentUser } = useAuth()
+  // Filters live in the query string so filtered views can be shared
+  const [searchParams, setSearchParams] = useSearchParams()
+  const search = searchParams.get('q') || ''
+  const difficulty = searchParams.get('difficulty') || ''
+  const tag = searchParams.get('tag') || ''
+  const status = (searchParams.get('status') || '') as StatusFilter
+  const sortParam = searchParams.get('sort') as ProblemSort
+  const sort: ProblemSort = SORTS.includes(sortParam) ? sortParam : 'title'
 
-  useEffect(() => {
-    async function fetchProblems() {
-      try {
-        const problemsCollection = collection(db, 'problems')
-        const problemsSnapshot = await getDocs(problemsCollection)
-        const problemsList = problemsSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as Problem[]
-        setProblems(problemsList)
-      } catch (error) {
-        console.error('Error fetching problems:', error)
-      }
-      setLoading(false)
+  const [problems, setProblems] = useState<ProblemSummary[]>([])
+  const [cursor, setCursor] = useState<ProblemCursor | null>(null)
+  const [allTags, setAllTags] = useState<string[]>([])
+  const [hasMore, setHasMore] = useState(true)
+  const [loading, setLoading] = useState(false)
+  const [statuses, setStatuses] = useState<Record<string, ProblemStatus>>({})
+  const [sentinelVisible, setSentinelVisible] = useState(false)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  // Ignores pages that arrive after the filters have changed
+  const queryVersion = useRef(0)
+
+  const updateParam = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams)
+    if (value) next.set(key, value)
+    else next.delete(key)
+    setSearchParams(next, { replace: true })
+  }
+
+  const loadPage = useCallback(async (after: ProblemCursor | null, version: number) => {
+    setLoading(true)
+    try {
+      const page = await fetchProblemsPage({ difficulty, tag, sort }, after)
+      if (version !== queryVersion.current) return
+      setProblems(prev => (after ? [...prev, ...page.problems] : page.problems))
+      setCursor(page.cursor)
+      setHasMore(page.cursor !== null)
+    } catch (error) {
+      console.error('Error fetching problems:', error)
+      if (version === queryVersion.current) setHasMore(false)
+    } finally {
+      if (version === queryVersion.current) setLoading(false)
     }
+  }, [difficulty, tag, sort])
+
+  // Start over from the first page whenever a server-side filter changes
+  useEffect(() => {
+    const version = ++queryVersion.current
+    setProblems([])
+    setCursor(null)
+    setHasMore(true)
+    loadPage(null, version)
+  }, [loadPage])
+
+  useEffect(() => {
+    if (!currentUser) return
+    getUserProblemStatuses(currentUser.uid)
+      .then(setStatuses)
+      .catch(error => console.error('Error fetching problem statuses:', error))
+  }, [currentUser])
 
-    fetchProblems()
+  useEffect(() => {
+    getProblemTags()
+      .then(setAllTags)
+      .catch(error => console.error('Error fetching problem tags:', error))
   }, [])
 
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel) return
+    const observer = new IntersectionObserver(([entry]) => setSentinelVisible(entry.isIntersecting))
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [])
+
+  const searchTerm = search.trim().toLowerCase()
+  const visibleProblems = problems.filter(problem => {
+    if (searchTerm && !problem.title.toLowerCase().includes(searchTerm)) return false
+    if (status === 'unattempted') return !statuses[problem.id]
+    if (status) return statuses[problem.id] === status
+    return true
+  })
+  // Tags of problems saved before meta/problemTags existed still come from the loaded pages
+  const knownTags = Array.from(new Set([
+    ...allTags,
+    ...problems.flatMap(problem => problem.tags || []),
+    ...(tag ? [tag] : []),
+  ])).sort()
+
+  // Keep loading while the end of the list is on screen. Search and status
+  // filtering happen client-side and can hide most of a page, so with either
+  // on, pages keep loading until a page's worth of matches is shown.
+  const filtering = !!searchTerm || !!status
+  const needsMore = sentinelVisible || (filtering && visibleProblems.length < PROBLEMS_PAGE_SIZE)
+  useEffect(() => {
+    if (needsMore && hasMore && !loading && cursor) {
+      loadPage(cursor, queryVersion.current)
+    }
+  }, [needsMore, hasMore, loading, cursor, loadPage])
+
   return (
     <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
-      {loading ? (
-        <div className="text-center">Loading problems...</div>
+      <div className="mb-6 flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          placeholder="Search problems by title..."
+          value={search}
+          onChange={e => updateParam('q', e.target.value)}
+          className="flex-1 min-w-[200px] border rounded px-3 py-2"
+        />
+        <select value={difficulty} onChange={e => updateParam('difficulty', e.target.value)} className="border rounded px-2 py-2">
+          <option value="">All difficulties</option>
+          {DIFFICULTIES.map(level => (
+            <option key={level} value={level}>{level}</option>
+          ))}
+        </select>
+        <select value={tag} onChange={e => updateParam('tag', e.target.value)} className="border rounded px-2 py-2">
+          <option value="">All tags</option>
+          {knownTags.map(knownTag => (
+            <option key={knownTag} value={knownTag}>{knownTag}</option>
+          ))}
+        </select>
+        <select value={status} onChange={e => updateParam('status', e.target.value)} className="border rounded px-2 py-2">
+          <option value="">Any status</option>
+          <option value="solved">Solved</option>
+          <option value="attempted">Attempted</option>
+          <option value="unattempted">Not attempted</option>
+        </select>
+        <select value={sort} onChange={e => updateParam('sort', e.target.value === 'title' ? '' : e.target.value)} className="border rounded px-2 py-2">
+          <option value="title">Title A–Z</option>
+          <option value="-title">Title Z–A</option>
+          <option value="difficulty">Easiest first</option>
+          <option value="-difficulty">Hardest first</option>
+        </select>
+      </div>
+      {!loading && visibleProblems.length === 0 && !hasMore ? (
+        <div className="text-center text-gray-500">No problems match these filters.</div>
       ) : (
         <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-          {problems.map((problem) => (
+          {visibleProblems.map((problem) => (
             <Link
               key={problem.id}
               to={`/problem/${problem.id}`}
               className="block bg-white overflow-hidden shadow rounded-lg hover:shadow-md transition-shadow duration-200"
             >
               <div className="px-4 py-5 sm:p-6">
-                <h3 className="text-lg font-medium text-gray-900">
-                  {problem.title}
-                </h3>
-                <div className="mt-2">
+                <div className="flex items-start justify-between">
+                  <h3 className="text-lg font-medium text-gray-900">
+                    {problem.title}
+                  </h3>
+                  {statuses[problem.id] && (
+                    <span className={`text-xs font-medium ${statuses[problem.id] === 'solved' ? 'text-green-700' : 'text-yellow-700'}`}>
+                      {statuses[problem.id] === 'solved' ? 'Solved' : 'Attempted'}
+                    </span>
+                  )}
+                </div>
+                <div className="mt-2 flex flex-wrap gap-1">
                   <span
                     className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                       problem.difficulty === 'Easy'
@@ -61,6 +184,11 @@ export default function Dashboard() {
                   >
                     {problem.difficulty}
                   </span>
+                  {problem.tags?.map(problemTag => (
+                    <span key={problemTag} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                      {problemTag}
+                    </span>
+                  ))}
                 </div>
                 <p className="mt-2 text-sm text-gray-500">
                   {problem.description}
@@ -70,6 +198,15 @@ export default function Dashboard() {
           ))}
         </div>
       )}
+      <div ref={sentinelRef} className="h-8" />
+      {loading && <div className="text-center">Loading problems...</div>}
+      {!loading && hasMore && (
+        <div className="text-center">
+          <button onClick={() => loadPage(cursor, queryVersion.current)} className="text-indigo-600 hover:underline">
+            Load more
+          </button>
+        </div>
+      )}
     </main>
   )
-} 
\ No newline at end of file
+}
@@ -0,0 +1,17 @@
+import { Link } from 'react-router-dom'
+
+export default function Forbidden() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full text-center space-y-4">
+        <h2 className="text-3xl font-extrabold text-gray-900">Access denied</h2>
+        <p className="text-gray-600">
+          You don't have permission to view this page. Ask an administrator if you think this is a mistake.
+        </p>
+        <Link to="/" className="font-medium text-indigo-600 hover:text-indigo-500">
+          Back to problems
+        </Link>
+      </div>
+    </div>
+  )
+}
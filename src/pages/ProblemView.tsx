@@ -1,49 +1,70 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useParams } from 'react-router-dom'
-import { doc, getDoc, collection, addDoc, serverTimestamp } from 'firebase/firestore'
-import { db } from '../config/firebase'
-import { LiveError, LivePreview, LiveProvider } from 'react-live'
 import { useAuth } from '../contexts/AuthContext'
 import { useLoading } from '../contexts/LoadingContext'
-import MonacoEditor from '@monaco-editor/react'
+import { useMonaco } from '@monaco-editor/react'
+import CodeEditor from '../components/CodeEditor'
 import AIPrompter from '../components/AIPrompter'
-import { isCodeSafe, sanitizeCode } from '../utils/codeSanitizer'
+import SubmissionVerdict from '../components/SubmissionVerdict'
+import ProblemStatement from '../components/ProblemStatement'
+import SampleResultsTable from '../components/SampleResultsTable'
+import RunErrorList from '../components/RunErrorList'
+import SubmissionHistory from '../components/SubmissionHistory'
+import SuggestionReview, { SuggestionReviewState } from '../components/SuggestionReview'
+import { analyzeCode, Finding, hasBlockingFindings } from '../utils/codeAnalysis'
+import { parseErrors, ParsedError } from '../utils/errorParsers'
+import { buildProposal, computeHunks, Hunk, hunkToEdit, LineRange } from '../utils/suggestionPatch'
+import { getCodeRunner } from '../services/codeRunner'
+import { JudgeResult, runSamples, SampleResult } from '../services/judgeService'
+import { getProblem, getStarterCode, isPublished, Problem } from '../services/problemService'
+import { hasRole, STAFF_ROLES } from '../services/userService'
+import { Submission, submitSolution } from '../services/submissionService'
+import { useDraftAutosave } from '../hooks/useDraftAutosave'
+import { useEditorSettings } from '../hooks/useEditorSettings'
+import { useInlineCompletions } from '../hooks/useInlineCompletions'
+import { useChatThreads } from '../hooks/useChatThreads'
+import { useAIHelp } from '../hooks/useAIHelp'
+import { isTutorMode } from '../services/tutorService'
+import { getLastCodeBlock } from '../services/aiService'
+import { LANGUAGES } from '../config/languages'
 import * as monaco from 'monaco-editor'
 
-interface Problem {
-  id: string
-  title: string
-  difficulty: string
-  description: string
-  initialCode: string
-}
-
-interface Message {
-  role: 'user' | 'assistant'
-  content: string
-}
-
 export default function ProblemView() {
   const { id } = useParams<{ id: string }>()
   const [problem, setProblem] = useState<Problem | null>(null)
   const [code, setCode] = useState('')
-  const { currentUser } = useAuth()
+  const { currentUser, userData, role } = useAuth()
   const { setLoading, setLoadingMessage } = useLoading()
   const [submitStatus, setSubmitStatus] = useState<string | null>(null)
   const [submitting, setSubmitting] = useState(false)
-  const [codeError, setCodeError] = useState<string | null>(null)
+  const [judgeResult, setJudgeResult] = useState<JudgeResult | null>(null)
+  const [submissionCount, setSubmissionCount] = useState(0)
+  const [findings, setFindings] = useState<Finding[]>([])
+  const hasUnsafeCode = hasBlockingFindings(findings)
   const [language, setLanguage] = useState('javascript')
   const [output, setOutput] = useState<string | null>(null)
   const [runError, setRunError] = useState<string | null>(null)
+  const [runDiagnostics, setRunDiagnostics] = useState<ParsedError[]>([])
   const [isRunning, setIsRunning] = useState(false)
+  const [stdin, setStdin] = useState('')
+  const [sampleResults, setSampleResults] = useState<SampleResult[] | null>(null)
   const [editorInstance, setEditorInstance] = useState<monaco.editor.IStandaloneCodeEditor | null>(null)
-  const [pendingSuggestion, setPendingSuggestion] = useState<{
-    type: 'insert' | 'replace',
-    code: string,
-    range?: monaco.Range
-  } | null>(null)
-  const [chat, setChat] = useState<Message[]>([])
-  const [lastSuggestedCode, setLastSuggestedCode] = useState<string | null>(null)
+  const monacoApi = useMonaco()
+  const { settings } = useEditorSettings()
+  const tutorMode = isTutorMode(problem, userData)
+  const { help, recordRequest } = useAIHelp(currentUser?.uid, problem?.id)
+  // Completions would write the solution for the student
+  useInlineCompletions(monacoApi, editorInstance, {
+    enabled: settings.inlineCompletions && !tutorMode,
+    language,
+    problemId: problem?.id,
+    problemTitle: problem?.title,
+  })
+  const [review, setReview] = useState<SuggestionReviewState | null>(null)
+  const { chat, setChat, lastSuggestedCode, setLastSuggestedCode, threadControls } = useChatThreads(currentUser?.uid, id)
+  // Code and view state per language, so switching languages never loses work
+  const drafts = useRef<Record<string, string>>({})
+  const viewStates = useRef<Record<string, monaco.editor.ICodeEditorViewState | null>>({})
 
   useEffect(() => {
     const fetchProblem = async () => {
@@ -51,11 +72,17 @@ export default function ProblemView() {
       setLoadingMessage('Loading problem...')
       try {
         if (!id) return
-        const problemDoc = await getDoc(doc(db, 'problems', id))
-        if (problemDoc.exists()) {
-          const problemData = { id: problemDoc.id, ...problemDoc.data() } as Problem
+        const problemData = await getProblem(id)
+        // Drafts are only visible to staff previewing them; the effect re-runs
+        // once the role is known, as it is 'student' until user data loads
+        if (problemData && (isPublished(problemData) || hasRole(role, STAFF_ROLES))) {
+          drafts.current = {}
+          viewStates.current = {}
           setProblem(problemData)
-          setCode(problemData.initialCode)
+          setCode(getStarterCode(problemData, language))
+          setStdin(problemData.samples?.[0]?.input || '')
+        } else {
+          setProblem(null)
         }
       } catch (error) {
         console.error('Error fetching problem:', error)
@@ -64,90 +91,217 @@ export default function ProblemView() {
       }
     }
     fetchProblem()
-  }, [id])
+  }, [id, role])
+
+  const { restoredAt, conflict, takeTheirs, keepMine, discardDraft } = useDraftAutosave({
+    userId: currentUser?.uid,
+    problemId: problem?.id,
+    language,
+    code,
+    onRestore: setCode,
+  })
+
+  const resetToStarterCode = async () => {
+    if (!problem) return
+    const starter = getStarterCode(problem, language)
+    setCode(starter)
+    delete drafts.current[language]
+    await discardDraft(starter)
+  }
+
+  const switchLanguage = (next: string) => {
+    if (!problem || next === language) return
+    drafts.current[language] = code
+    viewStates.current[language] = editorInstance?.saveViewState() ?? null
+    setLanguage(next)
+    setCode(drafts.current[next] ?? getStarterCode(problem, next))
+    setRunDiagnostics([])
+  }
 
-  // Only check code safety for warning, do not sanitize for live preview
+  // Restore cursor and scroll position once the editor shows the other language's code
   useEffect(() => {
-    if (!isCodeSafe(code)) {
-      setCodeError('Code contains potentially unsafe patterns and will not be rendered or submitted.')
-    } else {
-      setCodeError(null)
+    const viewState = viewStates.current[language]
+    if (editorInstance && viewState) {
+      editorInstance.restoreViewState(viewState)
     }
-  }, [code])
+  }, [editorInstance, language])
+
+  // Re-analyze code safety shortly after typing stops
+  useEffect(() => {
+    const timer = setTimeout(() => setFindings(analyzeCode(code, language)), 300)
+    return () => clearTimeout(timer)
+  }, [code, language])
+
+  // Show safety findings as markers in the editor
+  useEffect(() => {
+    const model = editorInstance?.getModel()
+    if (!monacoApi || !model) return
+    monacoApi.editor.setModelMarkers(model, 'safety', findings.map(finding => ({
+      severity: finding.severity === 'error' ? monacoApi.MarkerSeverity.Error : monacoApi.MarkerSeverity.Warning,
+      message: finding.message,
+      code: finding.ruleId,
+      source: 'safety',
+      startLineNumber: finding.line,
+      startColumn: finding.column,
+      endLineNumber: finding.endLine,
+      endColumn: finding.endColumn,
+    })))
+  }, [monacoApi, editorInstance, findings])
+
+  // Show compiler and runtime errors from the last run as squiggles and gutter icons
+  useEffect(() => {
+    const model = editorInstance?.getModel()
+    if (!monacoApi || !editorInstance || !model) return
+    monacoApi.editor.setModelMarkers(model, 'run', runDiagnostics.map(error => ({
+      severity: error.severity === 'error' ? monacoApi.MarkerSeverity.Error : monacoApi.MarkerSeverity.Warning,
+      message: error.message,
+      source: 'run',
+      startLineNumber: error.line,
+      startColumn: error.column ?? 1,
+      endLineNumber: error.line,
+      endColumn: error.column != null ? error.column + 1 : model.getLineMaxColumn(Math.min(error.line, model.getLineCount())),
+    })))
+    const decorations = editorInstance.createDecorationsCollection(runDiagnostics.map(error => ({
+      range: new monacoApi.Range(error.line, 1, error.line, 1),
+      options: {
+        isWholeLine: true,
+        glyphMarginClassName: error.severity === 'error' ? 'run-error-glyph' : 'run-warning-glyph',
+        glyphMarginHoverMessage: { value: error.message },
+      },
+    })))
+    return () => decorations.clear()
+  }, [monacoApi, editorInstance, runDiagnostics])
+
+  const jumpToError = (error: ParsedError) => {
+    if (!editorInstance) return
+    editorInstance.revealLineInCenter(error.line)
+    editorInstance.setPosition({ lineNumber: error.line, column: error.column ?? 1 })
+    editorInstance.focus()
+  }
 
   const handleSubmit = async () => {
     if (!currentUser) {
       setSubmitStatus('You must be logged in to submit.')
       return
     }
-    if (!isCodeSafe(code)) {
-      setSubmitStatus('Submission blocked: code contains unsafe patterns.')
+    if (!problem) return
+    if (hasBlockingFindings(analyzeCode(code, language))) {
+      setSubmitStatus('Submission blocked: fix the unsafe code marked in the editor.')
       return
     }
     try {
       setSubmitting(true)
       setSubmitStatus(null)
-      // Only sanitize on submit
-      const sanitizedCode = sanitizeCode(code, language)
-      await addDoc(collection(db, 'submissions'), {
-        userId: currentUser.uid,
-        problemId: problem?.id,
-        code: sanitizedCode,
-        createdAt: serverTimestamp(),
-      })
-      setSubmitStatus('Submission saved!')
+      setJudgeResult(null)
+      if (!getCodeRunner().supportsLanguage(language)) {
+        setSubmitStatus('Unsupported language')
+        return
+      }
+      // Judged on the API server, which also saves the submission
+      const { result } = await submitSolution(problem.id, code, language)
+      setJudgeResult(result)
+      setSubmissionCount(count => count + 1)
+      setSubmitStatus(result ? null : 'Submission saved! This problem has no test cases to judge against.')
     } catch (error) {
-      setSubmitStatus('Failed to save submission.')
+      setSubmitStatus(error instanceof Error ? `Failed to submit: ${error.message}` : 'Failed to submit.')
       console.error(error)
     } finally {
       setSubmitting(false)
     }
   }
 
+  // Replace the editor contents as a single undoable edit
+  const restoreSubmission = (submission: Submission) => {
+    const model = editorInstance?.getModel()
+    if (!editorInstance || !model) {
+      setCode(submission.code)
+      return
+    }
+    editorInstance.pushUndoStop()
+    editorInstance.executeEdits('history', [{ range: model.getFullModelRange(), text: submission.code }])
+    editorInstance.pushUndoStop()
+  }
+
   const handleRun = async () => {
     setIsRunning(true)
     setOutput(null)
     setRunError(null)
+    setRunDiagnostics([])
+    setSampleResults(null)
     try {
-      const JUDGE0_LANGUAGE_IDS: Record<string, number> = {
-        javascript: 63,
-        python: 71,
-        java: 62,
-        cpp: 54,
-      }
-      const language_id = JUDGE0_LANGUAGE_IDS[language]
-      if (!language_id) {
+      const runner = getCodeRunner()
+      if (!runner.supportsLanguage(language)) {
         setRunError('Unsupported language')
         return
       }
-      const response = await fetch('https://judge0-ce.p.rapidapi.com/submissions?base64_encoded=false&wait=true', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-RapidAPI-Host': 'judge0-ce.p.rapidapi.com',
-          'X-RapidAPI-Key': import.meta.env.VITE_JUDGE0_API_KEY,
-        },
-        body: JSON.stringify({
-          source_code: code,
-          language_id,
-        }),
-      })
-      const result = await response.json()
+      const result = await runner.run({ code, language, stdin })
+      // Console output and errors are shown together, e.g. logs before an uncaught exception
+      const error = result.compileOutput || result.stderr || (result.status !== 'ok' ? result.message : null)
       if (result.stdout) setOutput(result.stdout)
-      else if (result.stderr) setRunError(result.stderr)
-      else if (result.compile_output) setRunError(result.compile_output)
-      else if (result.message) setRunError(result.message)
-      else setOutput('No output')
-    } catch (err: any) {
-      setRunError('Error running code')
+      if (error) {
+        setRunError(error)
+        setRunDiagnostics(parseErrors(error, language))
+      }
+      if (!result.stdout && !error) setOutput('No output')
+    } catch (err) {
+      // e.g. the API server's rate limit or an expired session
+      setRunError(err instanceof Error ? `Error running code: ${err.message}` : 'Error running code')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleRunSamples = async () => {
+    if (!problem?.samples?.length) return
+    setIsRunning(true)
+    setOutput(null)
+    setRunError(null)
+    setSampleResults(null)
+    try {
+      if (!getCodeRunner().supportsLanguage(language)) {
+        setRunError('Unsupported language')
+        return
+      }
+      setSampleResults(await runSamples(code, language, problem.samples))
+    } catch (err) {
+      setRunError(err instanceof Error ? `Error running samples: ${err.message}` : 'Error running samples')
     } finally {
       setIsRunning(false)
     }
   }
 
-  // Handler to accept suggestion from AIPrompter
-  function handleAISuggestion(suggestion: { type: 'insert' | 'replace', code: string, range?: monaco.Range }) {
-    setPendingSuggestion(suggestion)
+  // Diffs an AI code block against the editor's current contents for review.
+  // `target` is the range the code replaces (null for the whole file); by
+  // default it is the current selection.
+  function openReview(code: string, target?: LineRange | null) {
+    const model = editorInstance?.getModel()
+    if (!editorInstance || !model) return
+    const original = model.getLinesContent().join('\n')
+    const selection = editorInstance.getSelection()
+    const { proposed, mode } = buildProposal(
+      original,
+      code,
+      target !== undefined ? target : selection && !selection.isEmpty() ? selection : null,
+      editorInstance.getPosition()
+    )
+    setReview({ code, original, proposed, mode, target, hunks: computeHunks(original, proposed) })
+  }
+
+  // Applies the accepted hunks as one edit, so a single undo reverts them all
+  function applySuggestion(hunks: Hunk[]) {
+    const model = editorInstance?.getModel()
+    if (!editorInstance || !model || !review) return
+    // A draft loaded from another tab can change the code under the review
+    if (model.getLinesContent().join('\n') !== review.original) {
+      openReview(review.code, review.target)
+      return
+    }
+    editorInstance.pushUndoStop()
+    editorInstance.executeEdits('ai', hunks.map(hunk => hunkToEdit(review.original, hunk)))
+    editorInstance.pushUndoStop()
+    setLastSuggestedCode(review.code)
+    setReview(null)
+    editorInstance.focus()
   }
 
   // Listen for new AI assistant messages and auto-trigger suggestion notification
@@ -155,21 +309,14 @@ export default function ProblemView() {
     if (!editorInstance) return;
     if (chat.length === 0) return;
     const lastAI = [...chat].reverse().find((msg) => msg.role === 'assistant');
-    if (!lastAI) return;
-    // Extract code block
-    const matches = Array.from(lastAI.content.matchAll(/```(?:[a-zA-Z]*)\n([\s\S]*?)```/g));
-    if (matches.length === 0) return;
-    const code = matches[matches.length - 1][1].trim();
-    // Only trigger if not already pending and not already suggested
-    if ((pendingSuggestion && pendingSuggestion.code === code) || lastSuggestedCode === code) return;
-    // Determine intent: replace if selection, insert otherwise
-    const selection = editorInstance.getSelection();
-    if (selection && !selection.isEmpty()) {
-      setPendingSuggestion({ type: 'replace', code, range: selection });
-    } else {
-      setPendingSuggestion({ type: 'insert', code });
-    }
-  }, [editorInstance, chat, pendingSuggestion, lastSuggestedCode]);
+    // Wait until the reply has finished streaming and its last code block is closed
+    if (!lastAI || lastAI.streaming || lastAI.noReview) return;
+    const code = getLastCodeBlock(lastAI.content);
+    if (!code) return;
+    // Only trigger if not already under review and not already handled
+    if ((review && review.code === code) || lastSuggestedCode === code) return;
+    openReview(code, lastAI.target);
+  }, [editorInstance, chat, review, lastSuggestedCode]);
 
   if (!problem) {
     return <div className="text-center">Problem not found</div>
@@ -180,22 +327,8 @@ export default function ProblemView() {
       <div className="flex-1 max-w-5xl ml-8 py-6 sm:px-4 lg:px-6">
         <div className="px-4 py-6 sm:px-0">
           {/* Description Card */}
-          <div className="bg-white shadow overflow-hidden sm:rounded-lg">
-            <div className="px-4 py-5 sm:px-6">
-              <h3 className="text-lg leading-6 font-medium text-gray-900">
-                {problem.title}
-              </h3>
-              <p className="mt-1 max-w-2xl text-sm text-gray-500">
-                Difficulty: {problem.difficulty}
-              </p>
-            </div>
-            <div className="border-t border-gray-200 px-4 py-5 sm:px-6">
-              <div className="prose max-w-none">
-                <p>{problem.description}</p>
-              </div>
-            </div>
-          </div>
-          {/* Editor/Preview Grid */}
+          <ProblemStatement key={problem.id} problem={problem} />
+          {/* Editor/Output Grid */}
           <div className="mt-8 grid grid-cols-1 gap-6 lg:grid-cols-2">
             <div className="bg-white shadow sm:rounded-lg">
               <div className="px-4 py-5 sm:p-6">
@@ -208,44 +341,67 @@ export default function ProblemView() {
                     <select
                       id="language-select"
                       value={language}
-                      onChange={e => setLanguage(e.target.value)}
+                      onChange={e => switchLanguage(e.target.value)}
                       className="border rounded px-2 py-1"
                     >
-                      <option value="javascript">JavaScript</option>
-                      <option value="python">Python</option>
-                      <option value="java">Java</option>
-                      <option value="cpp">C++</option>
+                      {LANGUAGES.map(option => (
+                        <option key={option.id} value={option.id}>{option.label}</option>
+                      ))}
                     </select>
+                    <button
+                      onClick={resetToStarterCode}
+                      className="ml-2 text-sm text-gray-600 hover:underline"
+                      title="Discard your draft for this language"
+                    >
+                      Reset
+                    </button>
                   </div>
                 </div>
-                <MonacoEditor
+                {restoredAt && (
+                  <div className="mb-2 flex items-center justify-between rounded bg-blue-50 px-3 py-2 text-sm text-blue-800">
+                    <span>Restored draft from {restoredAt.toLocaleString()}</span>
+                    <button onClick={resetToStarterCode} className="font-medium hover:underline">
+                      Reset to starter code
+                    </button>
+                  </div>
+                )}
+                {conflict && (
+                  <div className="mb-2 rounded bg-yellow-50 px-3 py-2 text-sm text-yellow-800">
+                    <div>
+                      This draft was changed in another tab at {conflict.updatedAt.toLocaleTimeString()}. Autosave is paused.
+                    </div>
+                    <div className="mt-1 flex gap-3">
+                      <button onClick={takeTheirs} className="font-medium hover:underline">Load other tab's version</button>
+                      <button onClick={keepMine} className="font-medium hover:underline">Keep mine</button>
+                    </div>
+                  </div>
+                )}
+                <CodeEditor
                   height="500px"
                   language={language}
-                  theme="vs-dark"
                   value={code}
                   onChange={(value) => setCode(value || '')}
                   options={{
-                    fontSize: 14,
-                    minimap: { enabled: false },
                     scrollBeyondLastLine: false,
-                    wordWrap: 'on',
+                    glyphMargin: true,
                   }}
                   onMount={(editor) => setEditorInstance(editor)}
                 />
-                {codeError && (
-                  <div className="mt-2 text-red-600 text-sm">{codeError}</div>
+                {hasUnsafeCode && (
+                  <div className="mt-2 text-red-600 text-sm">
+                    Fix the {findings.filter(finding => finding.severity === 'error').length} unsafe code issue(s) marked in the editor before submitting.
+                  </div>
                 )}
-                {/* Only show Run button for non-JS languages */}
                 <div className="mt-4 flex flex-row">
                   <button
                     onClick={handleSubmit}
-                    disabled={submitting || !!codeError}
-                    className={`px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 flex items-center justify-center ${submitting || codeError ? 'opacity-60 cursor-not-allowed' : ''}`}
+                    disabled={submitting || hasUnsafeCode}
+                    className={`px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 flex items-center justify-center ${submitting || hasUnsafeCode ? 'opacity-60 cursor-not-allowed' : ''}`}
                   >
                     {submitting ? (
                       <>
                         <span className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></span>
-                        Submitting...
+                        Judging...
                       </>
                     ) : (
                       'Submit'
@@ -258,80 +414,104 @@ export default function ProblemView() {
                   >
                     {isRunning ? 'Running...' : 'Run'}
                   </button>
+                  {problem.samples && problem.samples.length > 0 && (
+                    <button
+                      onClick={handleRunSamples}
+                      className="ml-2 px-4 py-2 border border-green-600 text-green-700 rounded hover:bg-green-50"
+                      disabled={isRunning}
+                    >
+                      Run all samples
+                    </button>
+                  )}
                 </div>
                 {submitStatus && (
                   <div className="mt-2 text-sm">
                     {submitStatus}
                   </div>
                 )}
+                {judgeResult && <SubmissionVerdict result={judgeResult} />}
               </div>
             </div>
             <div className="bg-white shadow sm:rounded-lg">
               <div className="px-4 py-5 sm:p-6">
                 <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">
-                  Preview
+                  Output
                 </h3>
-                <div className="border rounded-lg p-4 min-h-[500px] flex flex-col">
-                  {language === 'javascript' && (
-                    <LiveProvider code={isCodeSafe(code) ? code : ''}>
-                      <LivePreview />
-                      <LiveError className="mt-2 text-red-600 whitespace-pre-wrap break-words w-full" />
-                    </LiveProvider>
-                  )}
-                  {/* Always show output/error from Judge0 */}
+                <div className="border rounded-lg p-4 min-h-[300px] flex flex-col">
                   {output && <pre className="whitespace-pre-wrap break-words">{output}</pre>}
+                  <RunErrorList errors={runDiagnostics} onSelect={jumpToError} />
                   {runError && <div className="text-red-600 whitespace-pre-wrap break-words">{runError}</div>}
+                  {sampleResults && <SampleResultsTable results={sampleResults} />}
+                </div>
+                <div className="mt-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <label htmlFor="stdin-input" className="font-medium">Input (stdin)</label>
+                    {problem.samples && problem.samples.length > 0 && (
+                      <div className="flex gap-1">
+                        {problem.samples.map(sample => (
+                          <button
+                            key={sample.name}
+                            onClick={() => setStdin(sample.input)}
+                            className="text-xs px-2 py-1 border rounded hover:bg-gray-100"
+                          >
+                            {sample.name}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <textarea
+                    id="stdin-input"
+                    className="w-full border rounded p-2 font-mono text-sm resize-y"
+                    rows={5}
+                    placeholder="Input passed to your program when you click Run"
+                    value={stdin}
+                    onChange={e => setStdin(e.target.value)}
+                  />
                 </div>
               </div>
             </div>
           </div>
+          {currentUser && (
+            <SubmissionHistory
+              userId={currentUser.uid}
+              problemId={problem.id}
+              currentCode={code}
+              currentLanguage={language}
+              refreshKey={submissionCount}
+              onRestore={restoreSubmission}
+            />
+          )}
         </div>
       </div>
       {/* AI Sidebar */}
       <div className="h-full">
         <AIPrompter
           editor={editorInstance}
-          onAISuggestion={handleAISuggestion}
+          onAISuggestion={openReview}
           chat={chat}
           setChat={setChat}
+          problem={problem}
+          language={language}
+          lastRun={{ output, error: runError }}
+          threads={threadControls}
+          tutorMode={tutorMode}
+          hintsUsed={help.hintsUsed}
+          onRequest={recordRequest}
         />
       </div>
-      {/* AI Suggestion Modal/Notification */}
-      {pendingSuggestion && (
-        <div className="fixed inset-0 flex items-center justify-center z-50 bg-black bg-opacity-30">
-          <div className="bg-white rounded-lg shadow-lg p-6 max-w-lg w-full">
-            <h2 className="text-lg font-semibold mb-2">AI Suggestion: {pendingSuggestion.type === 'insert' ? 'Insert' : 'Replace'}</h2>
-            <pre className="bg-gray-900 text-white p-3 rounded mb-4 overflow-x-auto max-h-60 whitespace-pre-wrap break-words">
-              {pendingSuggestion.code}
-            </pre>
-            <div className="flex justify-end gap-2">
-              <button
-                className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
-                onClick={() => {
-                  if (!editorInstance) return;
-                  if (pendingSuggestion.type === 'insert') {
-                    editorInstance.trigger('ai', 'type', { text: pendingSuggestion.code });
-                  } else if (pendingSuggestion.type === 'replace' && pendingSuggestion.range) {
-                    editorInstance.executeEdits('ai', [{ range: pendingSuggestion.range, text: pendingSuggestion.code }]);
-                  }
-                  setLastSuggestedCode(pendingSuggestion.code);
-                  setPendingSuggestion(null);
-                }}
-              >
-                Accept
-              </button>
-              <button
-                className="px-4 py-2 bg-gray-300 text-gray-800 rounded hover:bg-gray-400"
-                onClick={() => {
-                  setLastSuggestedCode(pendingSuggestion.code);
-                  setPendingSuggestion(null);
-                }}
-              >
-                Reject
-              </button>
-            </div>
-          </div>
-        </div>
+      {/* AI Suggestion Review */}
+      {review && (
+        <SuggestionReview
+          key={review.proposed}
+          review={review}
+          language={language}
+          onApply={applySuggestion}
+          onReject={() => {
+            setLastSuggestedCode(review.code)
+            setReview(null)
+          }}
+        />
       )}
     </div>
   )
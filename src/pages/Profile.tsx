@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { useAuth } from '../contexts/AuthContext'
+import ActivityHeatmap from '../components/ActivityHeatmap'
+import AIHelpSummary from '../components/AIHelpSummary'
+import { VerdictBadge } from '../components/SubmissionVerdict'
+import { getLanguageLabel } from '../config/languages'
+import { getProblemDifficulties } from '../services/problemService'
+import { getUserSubmissions, Submission } from '../services/submissionService'
+import { getUserData, hasRole, setUserTutorMode, STAFF_ROLES, UserData } from '../services/userService'
+import { computeStats, ProgressStats } from '../utils/submissionStats'
+
+const RECENT_SUBMISSIONS = 20
+
+function StatCard({ label, value }: { label: string, value: React.ReactNode }) {
+  return (
+    <div className="bg-white shadow rounded-lg px-4 py-5">
+      <div className="text-sm text-gray-500">{label}</div>
+      <div className="mt-1 text-2xl font-semibold text-gray-900">{value}</div>
+    </div>
+  )
+}
+
+// Own profile at /profile; anyone else's, read-only for mentors and admins, at /u/:uid
+export default function Profile() {
+  const { uid } = useParams<{ uid: string }>()
+  const { currentUser, role } = useAuth()
+  const profileUid = uid || currentUser?.uid
+  const isOwnProfile = profileUid === currentUser?.uid
+  // Mentors and admins see AI help per submission and can switch on tutor mode
+  const isInstructorView = !isOwnProfile && hasRole(role, STAFF_ROLES)
+  const [profile, setProfile] = useState<UserData | null>(null)
+  const [stats, setStats] = useState<ProgressStats | null>(null)
+  const [submissions, setSubmissions] = useState<Submission[]>([])
+  const [savingTutorMode, setSavingTutorMode] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!profileUid) return
+    async function load(userId: string) {
+      setLoading(true)
+      setError('')
+      try {
+        const [userData, submissions] = await Promise.all([getUserData(userId), getUserSubmissions(userId)])
+        const difficulties = await getProblemDifficulties(
+          submissions.filter(submission => submission.verdict === 'Accepted').map(submission => submission.problemId)
+        )
+        setProfile(userData)
+        setSubmissions(submissions)
+        setStats(computeStats(submissions, difficulties))
+      } catch (err: any) {
+        console.error('Error loading profile:', err)
+        // Submissions are only readable by their owner, mentors and admins
+        setError(err?.code === 'permission-denied'
+          ? 'This profile is only visible to its owner, mentors and admins.'
+          : 'Failed to load profile')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load(profileUid)
+  }, [profileUid])
+
+  const toggleTutorMode = async (enabled: boolean) => {
+    if (!profileUid || !profile) return
+    setSavingTutorMode(true)
+    try {
+      await setUserTutorMode(profileUid, enabled)
+      setProfile({ ...profile, tutorMode: enabled })
+    } catch (err) {
+      console.error('Error updating tutor mode:', err)
+      setError('Failed to update tutor mode')
+    } finally {
+      setSavingTutorMode(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-center">Loading profile...</div>
+  }
+
+  if (error || !stats) {
+    return (
+      <div className="rounded-md bg-red-50 p-4">
+        <div className="text-sm text-red-700">{error || 'Profile not found'}</div>
+      </div>
+    )
+  }
+
+  const maxLanguageCount = Math.max(1, ...stats.languages.map(entry => entry.count))
+
+  return (
+    <div className="px-4 sm:px-0 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">
+          {profile?.displayName || profile?.email || 'User'}
+        </h2>
+        {!isOwnProfile && <p className="text-sm text-gray-500">Viewing read-only profile</p>}
+      </div>
+
+      {isInstructorView && (
+        <label className="flex items-center gap-2 bg-white shadow rounded-lg px-4 py-3 text-sm">
+          <input
+            type="checkbox"
+            checked={!!profile?.tutorMode}
+            disabled={savingTutorMode}
+            onChange={e => toggleTutorMode(e.target.checked)}
+          />
+          Tutor mode on every problem: the assistant gives hints instead of solutions
+        </label>
+      )}
+
+      <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+        <StatCard label="Solved" value={stats.totalSolved} />
+        <StatCard label="Acceptance rate" value={`${Math.round(stats.acceptanceRate * 100)}%`} />
+        <StatCard label="Current streak" value={`${stats.currentStreak} day${stats.currentStreak === 1 ? '' : 's'}`} />
+        <StatCard label="Longest streak" value={`${stats.longestStreak} day${stats.longestStreak === 1 ? '' : 's'}`} />
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className="bg-white shadow rounded-lg px-4 py-5">
+          <h3 className="text-lg font-medium text-gray-900 mb-3">Solved by difficulty</h3>
+          <ul className="space-y-2">
+            {Object.entries(stats.solvedByDifficulty).map(([difficulty, count]) => (
+              <li key={difficulty} className="flex justify-between text-sm">
+                <span>{difficulty}</span>
+                <span className="font-medium">{count}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="bg-white shadow rounded-lg px-4 py-5">
+          <h3 className="text-lg font-medium text-gray-900 mb-3">Languages used</h3>
+          {stats.languages.length === 0 ? (
+            <div className="text-sm text-gray-500">No submissions yet.</div>
+          ) : (
+            <ul className="space-y-2">
+              {stats.languages.map(({ language, count }) => (
+                <li key={language} className="text-sm">
+                  <div className="flex justify-between">
+                    <span>{getLanguageLabel(language)}</span>
+                    <span className="font-medium">{count}</span>
+                  </div>
+                  <div className="mt-1 h-2 bg-gray-100 rounded">
+                    <div className="h-2 bg-indigo-500 rounded" style={{ width: `${(count / maxLanguageCount) * 100}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg px-4 py-5">
+        <h3 className="text-lg font-medium text-gray-900 mb-3">
+          Activity <span className="text-sm font-normal text-gray-500">({stats.totalSubmissions} submissions)</span>
+        </h3>
+        <ActivityHeatmap activity={stats.activity} />
+      </div>
+
+      {isInstructorView && (
+        <div className="bg-white shadow rounded-lg px-4 py-5">
+          <h3 className="text-lg font-medium text-gray-900 mb-3">Recent submissions</h3>
+          {submissions.length === 0 ? (
+            <div className="text-sm text-gray-500">No submissions yet.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="text-left px-2 py-1">Submitted</th>
+                  <th className="text-left px-2 py-1">Problem</th>
+                  <th className="text-left px-2 py-1">Language</th>
+                  <th className="text-left px-2 py-1">Verdict</th>
+                  <th className="text-left px-2 py-1">AI help</th>
+                </tr>
+              </thead>
+              <tbody>
+                {submissions.slice(0, RECENT_SUBMISSIONS).map(submission => (
+                  <tr key={submission.id} className="border-t">
+                    <td className="px-2 py-1">{submission.createdAt.toLocaleString()}</td>
+                    <td className="px-2 py-1">
+                      <Link to={`/problem/${submission.problemId}`} className="text-indigo-600 hover:underline">
+                        {submission.problemId}
+                      </Link>
+                    </td>
+                    <td className="px-2 py-1">{getLanguageLabel(submission.language)}</td>
+                    <td className="px-2 py-1">
+                      {submission.verdict ? <VerdictBadge verdict={submission.verdict} /> : <span className="text-gray-400">Not judged</span>}
+                    </td>
+                    <td className="px-2 py-1"><AIHelpSummary submission={submission} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import CodeEditor from '../components/CodeEditor'
+import { useEditorSettings } from '../hooks/useEditorSettings'
+import { DEFAULT_EDITOR_SETTINGS, EditorSettings, EditorTheme, KeybindingMode } from '../services/userService'
+
+const FONT_SIZES = [10, 12, 13, 14, 16, 18, 20, 24]
+const TAB_SIZES = [2, 4, 8]
+const THEMES: { id: EditorTheme, label: string }[] = [
+  { id: 'vs-dark', label: 'Dark' },
+  { id: 'vs', label: 'Light' },
+  { id: 'hc-black', label: 'High contrast dark' },
+  { id: 'hc-light', label: 'High contrast light' },
+]
+const KEYBINDINGS: { id: KeybindingMode, label: string }[] = [
+  { id: 'default', label: 'Standard' },
+  { id: 'vim', label: 'Vim' },
+  { id: 'emacs', label: 'Emacs' },
+]
+
+const PREVIEW_CODE = `function fizzBuzz(n) {
+  for (let i = 1; i <= n; i++) {
+    if (i % 15 === 0) console.log('FizzBuzz')
+    else if (i % 3 === 0) console.log('Fizz')
+    else if (i % 5 === 0) console.log('Buzz')
+    else console.log(i) // a deliberately long line to show how word wrap behaves in the editor
+  }
+}
+`
+
+export default function Settings() {
+  const { updatePreferences } = useAuth()
+  const { settings } = useEditorSettings()
+  const [preview, setPreview] = useState(PREVIEW_CODE)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  // Each control saves on its own, writing only the field that changed
+  const save = async (changes: Partial<EditorSettings>) => {
+    setSaving(true)
+    setError('')
+    try {
+      await updatePreferences({ editorSettings: changes })
+    } catch (err) {
+      console.error('Error saving settings:', err)
+      setError('Failed to save settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="px-4 sm:px-0">
+      <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg leading-6 font-medium text-gray-900">Editor settings</h2>
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-gray-500">{saving ? 'Saving...' : 'Changes are saved automatically'}</span>
+            <button
+              onClick={() => save(DEFAULT_EDITOR_SETTINGS)}
+              className="px-4 py-2 border rounded hover:bg-gray-50 text-sm"
+            >
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+        {error && (
+          <div className="rounded-md bg-red-50 p-4 mb-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <label className="block text-sm">
+            Font size
+            <select
+              className="mt-1 w-full border rounded px-2 py-1"
+              value={settings.fontSize}
+              onChange={e => save({ fontSize: Number(e.target.value) })}
+            >
+              {FONT_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+            </select>
+          </label>
+          <label className="block text-sm">
+            Tab size
+            <select
+              className="mt-1 w-full border rounded px-2 py-1"
+              value={settings.tabSize}
+              onChange={e => save({ tabSize: Number(e.target.value) })}
+            >
+              {TAB_SIZES.map(size => <option key={size} value={size}>{size} spaces</option>)}
+            </select>
+          </label>
+          <label className="block text-sm">
+            Theme
+            <select
+              className="mt-1 w-full border rounded px-2 py-1"
+              value={settings.theme}
+              onChange={e => save({ theme: e.target.value as EditorTheme })}
+            >
+              {THEMES.map(theme => <option key={theme.id} value={theme.id}>{theme.label}</option>)}
+            </select>
+          </label>
+          <label className="block text-sm">
+            Keybindings
+            <select
+              className="mt-1 w-full border rounded px-2 py-1"
+              value={settings.keybindings}
+              onChange={e => save({ keybindings: e.target.value as KeybindingMode })}
+            >
+              {KEYBINDINGS.map(mode => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm sm:mt-6">
+            <input
+              type="checkbox"
+              checked={settings.wordWrap}
+              onChange={e => save({ wordWrap: e.target.checked })}
+            />
+            Word wrap
+          </label>
+          <label className="flex items-center gap-2 text-sm sm:mt-6">
+            <input
+              type="checkbox"
+              checked={settings.minimap}
+              onChange={e => save({ minimap: e.target.checked })}
+            />
+            Show minimap
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={settings.inlineCompletions}
+              onChange={e => save({ inlineCompletions: e.target.checked })}
+            />
+            AI inline completions (Tab to accept)
+          </label>
+        </div>
+
+        <h3 className="mt-6 mb-2 text-sm font-medium text-gray-700">Preview</h3>
+        <CodeEditor
+          height="250px"
+          language="javascript"
+          value={preview}
+          onChange={value => setPreview(value || '')}
+          options={{ scrollBeyondLastLine: false }}
+        />
+      </div>
+    </div>
+  )
+}
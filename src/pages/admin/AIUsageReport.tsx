@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { getUsageEvents, totalsByModel, totalsByUser, UsageEvent } from '../../services/aiUsageService'
+import { getUserData } from '../../services/userService'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HEAVIEST_USERS = 20
+
+const PERIODS = [
+  { id: 'today', label: 'Today (UTC)' },
+  { id: '7d', label: 'Last 7 days' },
+  { id: '30d', label: 'Last 30 days' },
+  { id: 'month', label: 'This month (UTC)' },
+] as const
+
+type Period = typeof PERIODS[number]['id']
+
+const periodStart = (period: Period): Date => {
+  const now = new Date()
+  switch (period) {
+    case 'today':
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    case '7d':
+      return new Date(now.getTime() - 7 * DAY_MS)
+    case '30d':
+      return new Date(now.getTime() - 30 * DAY_MS)
+    case 'month':
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  }
+}
+
+const formatCost = (costUsd: number) => `$${costUsd.toFixed(costUsd < 1 ? 4 : 2)}`
+
+export default function AIUsageReport() {
+  const [period, setPeriod] = useState<Period>('30d')
+  const [events, setEvents] = useState<UsageEvent[]>([])
+  const [names, setNames] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    async function load() {
+      setLoading(true)
+      setError('')
+      try {
+        const loaded = await getUsageEvents(periodStart(period))
+        const heaviest = totalsByUser(loaded).slice(0, HEAVIEST_USERS)
+        const users = await Promise.all(heaviest.map(({ userId }) => getUserData(userId)))
+        if (cancelled) return
+        setEvents(loaded)
+        setNames(Object.fromEntries(heaviest.map(({ userId }, idx) => [
+          userId,
+          users[idx]?.displayName || users[idx]?.email || userId,
+        ])))
+      } catch (err) {
+        console.error('Error loading AI usage:', err)
+        if (!cancelled) setError('Failed to load AI usage')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [period])
+
+  const users = totalsByUser(events).slice(0, HEAVIEST_USERS)
+  const models = totalsByModel(events)
+  const totalTokens = events.reduce((sum, event) => sum + event.totalTokens, 0)
+  const totalCost = events.reduce((sum, event) => sum + event.costUsd, 0)
+  const estimated = events.filter(event => event.estimated).length
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg leading-6 font-medium text-gray-900">AI usage</h2>
+          <select
+            value={period}
+            onChange={e => setPeriod(e.target.value as Period)}
+            className="border rounded px-2 py-1 text-sm"
+          >
+            {PERIODS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+        {loading ? (
+          <div className="text-center">Loading usage...</div>
+        ) : (
+          <>
+            <div className="text-sm text-gray-700">
+              {events.length.toLocaleString()} requests, {totalTokens.toLocaleString()} tokens, {formatCost(totalCost)}
+              {estimated > 0 && (
+                <span className="text-gray-500"> ({estimated} estimated from text because the model reported no usage)</span>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-md font-medium text-gray-900 mb-2">Heaviest users</h3>
+              {users.length === 0 ? (
+                <div className="text-sm text-gray-500">No AI requests in this period.</div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="text-left px-2 py-1">User</th>
+                      <th className="text-right px-2 py-1">Requests</th>
+                      <th className="text-right px-2 py-1">Tokens</th>
+                      <th className="text-right px-2 py-1">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {users.map(user => (
+                      <tr key={user.userId} className="border-t">
+                        <td className="px-2 py-1">
+                          <Link to={`/u/${user.userId}`} className="text-indigo-600 hover:underline">
+                            {names[user.userId] ?? user.userId}
+                          </Link>
+                        </td>
+                        <td className="px-2 py-1 text-right">{user.requests.toLocaleString()}</td>
+                        <td className="px-2 py-1 text-right">{user.totalTokens.toLocaleString()}</td>
+                        <td className="px-2 py-1 text-right">{formatCost(user.costUsd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-md font-medium text-gray-900 mb-2">Cost per model</h3>
+              {models.length === 0 ? (
+                <div className="text-sm text-gray-500">No AI requests in this period.</div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="text-left px-2 py-1">Model</th>
+                      <th className="text-right px-2 py-1">Requests</th>
+                      <th className="text-right px-2 py-1">Prompt tokens</th>
+                      <th className="text-right px-2 py-1">Completion tokens</th>
+                      <th className="text-right px-2 py-1">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {models.map(model => (
+                      <tr key={model.model} className="border-t">
+                        <td className="px-2 py-1">{model.model}</td>
+                        <td className="px-2 py-1 text-right">{model.requests.toLocaleString()}</td>
+                        <td className="px-2 py-1 text-right">{model.promptTokens.toLocaleString()}</td>
+                        <td className="px-2 py-1 text-right">{model.completionTokens.toLocaleString()}</td>
+                        <td className="px-2 py-1 text-right">{formatCost(model.costUsd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { deleteProblem, isPublished, listAllProblems, ProblemSummary } from '../../services/problemService'
+
+export default function AdminProblems() {
+  const [problems, setProblems] = useState<ProblemSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    listAllProblems()
+      .then(setProblems)
+      .catch(err => {
+        console.error('Error fetching problems:', err)
+        setError('Failed to load problems')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  async function handleDelete(problem: ProblemSummary) {
+    if (!window.confirm(`Delete "${problem.title}"? This cannot be undone.`)) return
+    try {
+      await deleteProblem(problem.id)
+      setProblems(prev => prev.filter(p => p.id !== problem.id))
+    } catch (err) {
+      console.error('Error deleting problem:', err)
+      setError('Failed to delete problem')
+    }
+  }
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg leading-6 font-medium text-gray-900">Problems</h2>
+          <Link
+            to="/admin/problems/new"
+            className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 text-sm"
+          >
+            New problem
+          </Link>
+        </div>
+        {error && (
+          <div className="rounded-md bg-red-50 p-4 mb-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+        {loading ? (
+          <div className="text-center">Loading problems...</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="text-left px-2 py-1">Title</th>
+                <th className="text-left px-2 py-1">Difficulty</th>
+                <th className="text-left px-2 py-1">Status</th>
+                <th className="px-2 py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {problems.map(problem => (
+                <tr key={problem.id} className="border-t">
+                  <td className="px-2 py-1">{problem.title}</td>
+                  <td className="px-2 py-1">{problem.difficulty}</td>
+                  <td className="px-2 py-1">
+                    {isPublished(problem) ? (
+                      <span className="text-green-700">Published</span>
+                    ) : (
+                      <span className="text-gray-500">Draft</span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1 text-right space-x-3">
+                    <Link to={`/admin/problems/${problem.id}`} className="text-indigo-600 hover:underline">Edit</Link>
+                    <button onClick={() => handleDelete(problem)} className="text-red-600 hover:underline">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,436 @@
+import { useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import CodeEditor from '../../components/CodeEditor'
+import MarkdownContent from '../../components/MarkdownContent'
+import SubmissionVerdict from '../../components/SubmissionVerdict'
+import { LANGUAGES } from '../../config/languages'
+import { judgeSolution, JudgeResult, TestCase } from '../../services/judgeService'
+import {
+  getProblem,
+  getReferenceSolution,
+  getTestCases,
+  Problem,
+  PublishStatus,
+  ReferenceSolution,
+  saveProblem,
+  saveReferenceSolution,
+  saveTestCases,
+} from '../../services/problemService'
+
+// Test cases are edited with the problem but saved separately
+type ProblemForm = Required<Omit<Problem, 'id'>> & { testCases: TestCase[] }
+
+const EMPTY_FORM: ProblemForm = {
+  title: '',
+  difficulty: 'Easy',
+  status: 'draft',
+  description: '',
+  tags: [],
+  statement: '',
+  inputFormat: '',
+  outputFormat: '',
+  constraints: [],
+  examples: [],
+  hints: [],
+  initialCode: '',
+  starterCode: {},
+  samples: [],
+  testCases: [],
+  tutorMode: false,
+}
+
+interface CaseField<T> {
+  key: keyof T & string
+  label: string
+  rows?: number
+}
+
+interface CaseListEditorProps<T> {
+  title: string
+  items: T[]
+  fields: CaseField<T>[]
+  createItem: () => T
+  onChange: (items: T[]) => void
+}
+
+function CaseListEditor<T extends object>({ title, items, fields, createItem, onChange }: CaseListEditorProps<T>) {
+  const update = (index: number, key: keyof T, value: string) =>
+    onChange(items.map((item, idx) => (idx === index ? { ...item, [key]: value } : item)))
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900">{title}</h4>
+        <button onClick={() => onChange([...items, createItem()])} className="text-sm text-indigo-600 hover:underline">
+          Add
+        </button>
+      </div>
+      {items.length === 0 && <div className="text-sm text-gray-500 mt-1">None yet.</div>}
+      {items.map((item, index) => (
+        <div key={index} className="mt-2 border rounded p-2">
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>#{index + 1}</span>
+            <button onClick={() => onChange(items.filter((_, idx) => idx !== index))} className="text-red-600 hover:underline">
+              Remove
+            </button>
+          </div>
+          <div className={`grid gap-2 grid-cols-1 ${fields.length > 1 ? 'sm:grid-cols-2' : ''}`}>
+            {fields.map(field => (
+              <label key={field.key} className="block text-xs text-gray-600">
+                {field.label}
+                <textarea
+                  className="mt-1 w-full border rounded p-1 font-mono text-sm"
+                  rows={field.rows ?? 3}
+                  value={String(item[field.key] ?? '')}
+                  onChange={e => update(index, field.key, e.target.value)}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// What validation covered; any change to it requires validating again before publishing
+const validationKey = (form: ProblemForm, solution: ReferenceSolution) =>
+  JSON.stringify({ testCases: form.testCases, solution })
+
+export default function ProblemEditor() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [form, setForm] = useState<ProblemForm>(EMPTY_FORM)
+  const [solution, setSolution] = useState<ReferenceSolution>({ language: 'javascript', code: '' })
+  const [starterLanguage, setStarterLanguage] = useState('javascript')
+  const [loading, setLoading] = useState(!!id)
+  const [saving, setSaving] = useState(false)
+  const [validating, setValidating] = useState(false)
+  const [validation, setValidation] = useState<JudgeResult | null>(null)
+  const [validatedFor, setValidatedFor] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    if (!id) return
+    async function load(problemId: string) {
+      try {
+        const [problem, reference, testCases] = await Promise.all([
+          getProblem(problemId),
+          getReferenceSolution(problemId),
+          getTestCases(problemId),
+        ])
+        if (!problem) {
+          setError('Problem not found')
+          return
+        }
+        const { id: _, ...data } = problem
+        const loaded = { ...EMPTY_FORM, ...data, testCases, status: problem.status ?? 'published' }
+        setForm(loaded)
+        if (reference) setSolution(reference)
+        // A published problem already passed validation with what is stored
+        if (loaded.status === 'published' && reference) {
+          setValidatedFor(validationKey(loaded, reference))
+        }
+      } catch (err) {
+        console.error('Error fetching problem:', err)
+        setError('Failed to load problem')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load(id)
+  }, [id])
+
+  const update = <K extends keyof ProblemForm>(key: K, value: ProblemForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }))
+
+  const isValidated = validatedFor !== null && validatedFor === validationKey(form, solution)
+
+  async function handleValidate() {
+    setError('')
+    setValidation(null)
+    if (form.testCases.length === 0) {
+      setError('Add at least one test case before validating.')
+      return
+    }
+    if (!solution.code.trim()) {
+      setError('Add a reference solution before validating.')
+      return
+    }
+    try {
+      setValidating(true)
+      const result = await judgeSolution(solution.code, solution.language, form.testCases)
+      setValidation(result)
+      setValidatedFor(result.verdict === 'Accepted' ? validationKey(form, solution) : null)
+    } catch (err) {
+      console.error('Error validating problem:', err)
+      setError('Failed to run the reference solution')
+    } finally {
+      setValidating(false)
+    }
+  }
+
+  async function handleSave(status: PublishStatus) {
+    setError('')
+    setMessage('')
+    if (!form.title.trim()) {
+      setError('Title is required.')
+      return
+    }
+    if (status === 'published' && !isValidated) {
+      setError('Validate the reference solution against every test case before publishing.')
+      return
+    }
+    try {
+      setSaving(true)
+      const { testCases, ...problem } = form
+      const savedId = await saveProblem({ ...problem, id, status })
+      await saveReferenceSolution(savedId, solution)
+      await saveTestCases(savedId, testCases)
+      setForm(prev => ({ ...prev, status }))
+      setMessage(status === 'published' ? 'Problem published.' : 'Draft saved.')
+      if (!id) navigate(`/admin/problems/${savedId}`, { replace: true })
+    } catch (err) {
+      console.error('Error saving problem:', err)
+      setError('Failed to save problem')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-center">Loading problem...</div>
+  }
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg leading-6 font-medium text-gray-900">
+            {id ? 'Edit problem' : 'New problem'}
+            <span className="ml-2 text-sm text-gray-500">({form.status === 'published' ? 'Published' : 'Draft'})</span>
+          </h2>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleSave('draft')}
+              disabled={saving}
+              className="px-4 py-2 border rounded hover:bg-gray-50 text-sm"
+            >
+              {form.status === 'published' ? 'Unpublish and save' : 'Save draft'}
+            </button>
+            <button
+              onClick={() => handleSave('published')}
+              disabled={saving || !isValidated}
+              title={isValidated ? undefined : 'Validate before publishing'}
+              className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 text-sm disabled:opacity-50"
+            >
+              {form.status === 'published' ? 'Save' : 'Publish'}
+            </button>
+          </div>
+        </div>
+        {error && (
+          <div className="rounded-md bg-red-50 p-4 mb-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+        {message && (
+          <div className="rounded-md bg-green-50 p-4 mb-4">
+            <div className="text-sm text-green-700">{message}</div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <label className="block text-sm sm:col-span-2">
+            Title
+            <input
+              className="mt-1 w-full border rounded px-2 py-1"
+              value={form.title}
+              onChange={e => update('title', e.target.value)}
+            />
+          </label>
+          <label className="block text-sm">
+            Difficulty
+            <select
+              className="mt-1 w-full border rounded px-2 py-1"
+              value={form.difficulty}
+              onChange={e => update('difficulty', e.target.value)}
+            >
+              <option value="Easy">Easy</option>
+              <option value="Medium">Medium</option>
+              <option value="Hard">Hard</option>
+            </select>
+          </label>
+          <label className="block text-sm sm:col-span-2">
+            Summary (shown on the dashboard)
+            <input
+              className="mt-1 w-full border rounded px-2 py-1"
+              value={form.description}
+              onChange={e => update('description', e.target.value)}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm sm:mt-6">
+            <input
+              type="checkbox"
+              checked={form.tutorMode}
+              onChange={e => update('tutorMode', e.target.checked)}
+            />
+            Tutor mode (AI gives hints, not solutions)
+          </label>
+          <label className="block text-sm">
+            Tags (comma-separated)
+            <input
+              className="mt-1 w-full border rounded px-2 py-1"
+              value={form.tags.join(', ')}
+              onChange={e => update('tags', e.target.value.split(',').map(tag => tag.trim()).filter(Boolean))}
+            />
+          </label>
+        </div>
+
+        <h4 className="mt-6 font-semibold text-gray-900">Statement</h4>
+        <div className="mt-1 grid grid-cols-1 gap-4 lg:grid-cols-2">
+          <textarea
+            className="w-full border rounded p-2 font-mono text-sm min-h-[300px]"
+            placeholder="Markdown, with $math$ and fenced code blocks"
+            value={form.statement}
+            onChange={e => update('statement', e.target.value)}
+          />
+          <div className="border rounded p-2 min-h-[300px] overflow-auto">
+            <MarkdownContent>{form.statement || '*Preview*'}</MarkdownContent>
+          </div>
+        </div>
+        <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <label className="block text-sm">
+            Input format
+            <textarea
+              className="mt-1 w-full border rounded p-2 font-mono text-sm"
+              rows={4}
+              value={form.inputFormat}
+              onChange={e => update('inputFormat', e.target.value)}
+            />
+          </label>
+          <label className="block text-sm">
+            Output format
+            <textarea
+              className="mt-1 w-full border rounded p-2 font-mono text-sm"
+              rows={4}
+              value={form.outputFormat}
+              onChange={e => update('outputFormat', e.target.value)}
+            />
+          </label>
+          <label className="block text-sm">
+            Constraints (one per line)
+            <textarea
+              className="mt-1 w-full border rounded p-2 font-mono text-sm"
+              rows={4}
+              value={form.constraints.join('\n')}
+              onChange={e => update('constraints', e.target.value.split('\n').filter(line => line.trim()))}
+            />
+          </label>
+        </div>
+
+        <CaseListEditor
+          title="Examples"
+          items={form.examples}
+          fields={[
+            { key: 'input', label: 'Input' },
+            { key: 'output', label: 'Output' },
+            { key: 'explanation', label: 'Explanation (markdown)', rows: 2 },
+          ]}
+          createItem={() => ({ input: '', output: '', explanation: '' })}
+          onChange={items => update('examples', items)}
+        />
+        <CaseListEditor
+          title="Hints (gentlest first)"
+          items={form.hints.map(text => ({ text }))}
+          fields={[{ key: 'text', label: 'Hint (markdown)', rows: 2 }]}
+          createItem={() => ({ text: '' })}
+          onChange={items => update('hints', items.map(item => item.text))}
+        />
+
+        <div className="mt-6 flex items-center justify-between">
+          <h4 className="font-semibold text-gray-900">Starter code</h4>
+          <div className="flex gap-1">
+            {LANGUAGES.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setStarterLanguage(option.id)}
+                className={`text-xs px-2 py-1 border rounded ${starterLanguage === option.id ? 'bg-indigo-600 text-white' : 'hover:bg-gray-100'}`}
+              >
+                {option.label}{form.starterCode[option.id] ? ' ✓' : ''}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="mt-2">
+          <CodeEditor
+            height="250px"
+            language={starterLanguage}
+            value={form.starterCode[starterLanguage] ?? ''}
+            onChange={value => update('starterCode', { ...form.starterCode, [starterLanguage]: value || '' })}
+            options={{ scrollBeyondLastLine: false }}
+          />
+        </div>
+
+        <CaseListEditor
+          title="Samples (public)"
+          items={form.samples}
+          fields={[
+            { key: 'name', label: 'Name', rows: 1 },
+            { key: 'input', label: 'Input' },
+            { key: 'expectedOutput', label: 'Expected output' },
+          ]}
+          createItem={() => ({ name: `Sample ${form.samples.length + 1}`, input: '', expectedOutput: '' })}
+          onChange={items => update('samples', items)}
+        />
+        <CaseListEditor
+          title="Hidden test cases"
+          items={form.testCases}
+          fields={[
+            { key: 'input', label: 'Input' },
+            { key: 'expectedOutput', label: 'Expected output' },
+          ]}
+          createItem={() => ({ input: '', expectedOutput: '' })}
+          onChange={items => update('testCases', items)}
+        />
+
+        <div className="mt-6 flex items-center justify-between">
+          <h4 className="font-semibold text-gray-900">Reference solution</h4>
+          <select
+            value={solution.language}
+            onChange={e => setSolution(prev => ({ ...prev, language: e.target.value }))}
+            className="border rounded px-2 py-1 text-sm"
+          >
+            {LANGUAGES.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="mt-2">
+          <CodeEditor
+            height="250px"
+            language={solution.language}
+            value={solution.code}
+            onChange={value => setSolution(prev => ({ ...prev, code: value || '' }))}
+            options={{ scrollBeyondLastLine: false }}
+          />
+        </div>
+        <div className="mt-4 flex items-center gap-3">
+          <button
+            onClick={handleValidate}
+            disabled={validating}
+            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 text-sm"
+          >
+            {validating ? 'Validating...' : 'Validate'}
+          </button>
+          <span className={`text-sm ${isValidated ? 'text-green-700' : 'text-gray-500'}`}>
+            {isValidated
+              ? 'Reference solution passes every test case.'
+              : 'The reference solution must pass every test case before the problem can be published.'}
+          </span>
+        </div>
+        {validation && <SubmissionVerdict result={validation} />}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+import { getLanguageLabel } from '../config/languages'
+
+export type AIActionId = 'explain' | 'fix' | 'tests' | 'comments' | 'optimize'
+
+export interface AIActionInput {
+  // The selection, or the whole file when nothing is selected
+  code: string
+  isSelection: boolean
+  language: string
+  runError: string | null
+}
+
+export interface AIAction {
+  id: AIActionId
+  label: string
+  // Letter pressed with Ctrl/Cmd+Alt
+  key: 'E' | 'F' | 'G' | 'K' | 'O'
+  // Replies are code meant to go back into the editor via suggestion review
+  producesCode: boolean
+  // Monaco context key expression the action needs, if any
+  precondition?: string
+  buildPrompt: (input: AIActionInput) => string
+}
+
+// Set on the editor while the last run produced an error
+export const HAS_RUN_ERROR_KEY = 'hasRunError'
+
+const codeBlock = ({ code, language }: AIActionInput) => `\`\`\`${language}\n${code}\n\`\`\``
+
+const target = ({ isSelection }: AIActionInput) => isSelection ? 'this selected code' : 'my code'
+
+// Replies that go through suggestion review must hold exactly one code block
+const replyWithCode = (input: AIActionInput) => input.isSelection
+  ? 'Reply with a short explanation, then one code block containing only the replacement for the selected code.'
+  : 'Reply with a short explanation, then one code block containing the complete updated file.'
+
+export const AI_ACTIONS: AIAction[] = [
+  {
+    id: 'explain',
+    label: 'Explain selection',
+    key: 'E',
+    producesCode: false,
+    precondition: 'editorHasSelection',
+    buildPrompt: input =>
+      `Explain what ${target(input)} does, step by step, in plain language. Don't rewrite it.\n\n${codeBlock(input)}`,
+  },
+  {
+    id: 'fix',
+    label: 'Fix using last error',
+    key: 'F',
+    producesCode: true,
+    precondition: HAS_RUN_ERROR_KEY,
+    buildPrompt: input =>
+      `Running my ${getLanguageLabel(input.language)} code failed with this error:\n\n\`\`\`\n${input.runError ?? ''}\n\`\`\`\n\n` +
+      `Find the cause and fix ${target(input)}. ${replyWithCode(input)}\n\n${codeBlock(input)}`,
+  },
+  {
+    id: 'tests',
+    label: 'Generate test inputs',
+    key: 'G',
+    producesCode: false,
+    buildPrompt: input =>
+      `Suggest test inputs for ${target(input)}, including edge cases and a large input for performance. ` +
+      `For each, give the exact stdin, the expected output and what it checks.\n\n${codeBlock(input)}`,
+  },
+  {
+    id: 'comments',
+    label: 'Add comments',
+    key: 'K',
+    producesCode: true,
+    buildPrompt: input =>
+      `Add concise comments to ${target(input)} explaining the intent of each non-obvious part. ` +
+      `Don't change any behaviour. ${replyWithCode(input)}\n\n${codeBlock(input)}`,
+  },
+  {
+    id: 'optimize',
+    label: 'Optimize complexity',
+    key: 'O',
+    producesCode: true,
+    buildPrompt: input =>
+      `State the time and space complexity of ${target(input)}, then rewrite it with better complexity if possible, ` +
+      `keeping the same input and output. ${replyWithCode(input)}\n\n${codeBlock(input)}`,
+  },
+]
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest'
+import { buildChatRequest, ChatMessage, getLastCodeBlock } from './aiService'
+
+// The LLM providers talk to Firebase Auth, which needs a real config
+vi.mock('../config/firebase', () => ({ auth: {}, db: {} }))
+
+// Ten tokens each by the 4-characters-per-token estimate
+const message = (role: ChatMessage['role'], tag: string): ChatMessage => ({ role, content: tag.padEnd(40, '.') })
+
+const history = [
+  message('user', 'q1'),
+  message('assistant', 'a1'),
+  message('user', 'q2'),
+  message('assistant', 'a2a'),
+  message('assistant', 'a2b'),
+  message('user', 'q3'),
+  message('assistant', 'a3'),
+]
+
+// The system prompt 'sys' and the prompt 'next' cost one token each
+const contents = (tokenBudget: number, chat = history) =>
+  buildChatRequest(chat, 'next', {}, tokenBudget, 'sys').messages.map(({ content }) => content.replace(/\.+$/, ''))
+
+describe('buildChatRequest', () => {
+  it('keeps the whole history when it fits', () => {
+    expect(contents(100)).toEqual(['sys', 'q1', 'a1', 'q2', 'a2a', 'a2b', 'q3', 'a3', 'next'])
+  })
+
+  it('drops whole turns, oldest first', () => {
+    expect(contents(2 + 50)).toEqual(['sys', 'q2', 'a2a', 'a2b', 'q3', 'a3', 'next'])
+    expect(contents(2 + 49)).toEqual(['sys', 'q3', 'a3', 'next'])
+    expect(contents(2 + 19)).toEqual(['sys', 'next'])
+  })
+
+  it('counts the omitted messages', () => {
+    expect(buildChatRequest(history, 'next', {}, 2 + 20, 'sys').omittedMessages).toBe(5)
+  })
+
+  it('never starts the history with an assistant reply', () => {
+    const chat = [message('assistant', 'greeting'), message('user', 'q1'), message('assistant', 'a1')]
+    expect(contents(100, chat)).toEqual(['sys', 'q1', 'a1', 'next'])
+  })
+
+  it('attaches the context to the system prompt', () => {
+    const [system] = buildChatRequest([], 'next', { code: { text: 'x = 1' }, language: 'python' }, 1000, 'sys').messages
+    expect(system.content).toBe('sys\n\n# Context\n\n## Language\nPython\n\n## Current code\n```python\nx = 1\n```')
+  })
+})
+
+describe('getLastCodeBlock', () => {
+  it('returns the last complete block', () => {
+    expect(getLastCodeBlock('a\n```js\none\n```\nb\n```py\ntwo\n```')).toBe('two')
+  })
+
+  it('returns null while a block is still open', () => {
+    expect(getLastCodeBlock('```js\none\n```\n```py\ntw')).toBeNull()
+    expect(getLastCodeBlock('no code')).toBeNull()
+  })
+})
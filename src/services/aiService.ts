@@ -0,0 +1,174 @@
+import { getLanguageLabel } from '../config/languages'
+import { ModelConfig } from '../config/models'
+import { LineRange } from '../utils/suggestionPatch'
+import { ChatCompletionRequest, ChatMessage, CompletionResult, getLLMProvider, StreamOptions } from './llm'
+import { Problem } from './problemService'
+
+export type { ChatMessage, ChatRole, CompletionResult, FinishReason } from './llm'
+
+// A message as shown in the sidebar chat
+export interface ChatEntry {
+  role: 'user' | 'assistant'
+  content: string
+  // Still receiving tokens
+  streaming?: boolean
+  // Cut off by the max token limit and can be continued
+  truncated?: boolean
+  // Stopped by the user before it finished
+  stopped?: boolean
+  // Replies whose code isn't meant for the editor, e.g. generated test inputs
+  noReview?: boolean
+  // What the reply's code replaces: the selection it was asked about, or the
+  // whole file when null. Unset means the selection at review time.
+  target?: LineRange | null
+}
+
+// Everything the assistant can be told about the user's current work
+export interface AIContext {
+  problem?: Pick<Problem, 'title' | 'description' | 'statement' | 'inputFormat' | 'outputFormat' | 'constraints'>
+  code?: {
+    text: string
+    // Set when only the editor selection is attached
+    selection?: { startLine: number, endLine: number }
+  }
+  language?: string
+  lastRun?: {
+    output: string | null
+    error: string | null
+  }
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[]
+  // Earlier chat messages left out to fit the token budget
+  omittedMessages: number
+}
+
+export const SYSTEM_PROMPT = 'You are a helpful coding assistant on a programming practice platform. ' +
+  'Use the problem, code and run results provided as context. ' +
+  'When you propose code, put it in a single fenced code block in the language the user is working in.'
+
+// Caps what one request sends to models with very large context windows
+const MAX_PROMPT_TOKENS = 16000
+
+// Prompt tokens available for a model once room is left for its reply
+export const getTokenBudget = (model: ModelConfig) =>
+  Math.max(0, Math.min(model.contextWindow - model.maxTokens, MAX_PROMPT_TOKENS))
+
+// Attached code and output never take more than this share of the budget
+const MAX_CONTEXT_SHARE = 0.5
+
+// Rough count for English and code; close enough to budget with, without shipping a tokenizer
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+const truncateToTokens = (text: string, maxTokens: number) => {
+  const maxChars = maxTokens * 4
+  return text.length <= maxChars ? text : `${text.slice(0, maxChars)}\n... (truncated)`
+}
+
+const fence = (text: string, language = '') => `\`\`\`${language}\n${text}\n\`\`\``
+
+export const formatContext = (context: AIContext, maxTokens: number): string => {
+  const sections: string[] = []
+  if (context.problem) {
+    const { problem } = context
+    const parts = [`## Problem: ${problem.title}`, problem.statement || problem.description]
+    if (problem.inputFormat) parts.push(`### Input\n${problem.inputFormat}`)
+    if (problem.outputFormat) parts.push(`### Output\n${problem.outputFormat}`)
+    if (problem.constraints?.length) parts.push(`### Constraints\n${problem.constraints.map(item => `- ${item}`).join('\n')}`)
+    sections.push(parts.join('\n\n'))
+  }
+  if (context.language) {
+    sections.push(`## Language\n${getLanguageLabel(context.language)}`)
+  }
+  if (context.code) {
+    const { text, selection } = context.code
+    const heading = selection
+      ? `## Selected code (lines ${selection.startLine}-${selection.endLine})`
+      : '## Current code'
+    sections.push(`${heading}\n${fence(text, context.language)}`)
+  }
+  if (context.lastRun) {
+    const { output, error } = context.lastRun
+    const parts = ['## Last run']
+    if (error) parts.push(`Error:\n${fence(error)}`)
+    if (output) parts.push(`Output:\n${fence(output)}`)
+    if (parts.length > 1) sections.push(parts.join('\n'))
+  }
+  return truncateToTokens(sections.join('\n\n'), maxTokens)
+}
+
+// Builds the messages for one request: the system prompt, the attached
+// context, as much of the earlier conversation as fits, and the new prompt.
+// Old turns are dropped whole, oldest first, so the history never starts
+// with an orphaned assistant reply.
+// `systemPrompt` replaces the default one, e.g. for tutor mode.
+export const buildChatRequest = (
+  history: ChatMessage[],
+  prompt: string,
+  context: AIContext,
+  tokenBudget: number,
+  systemPrompt = SYSTEM_PROMPT
+): ChatRequest => {
+  const contextText = formatContext(context, Math.floor(tokenBudget * MAX_CONTEXT_SHARE))
+  const system: ChatMessage = {
+    role: 'system',
+    content: contextText ? `${systemPrompt}\n\n# Context\n\n${contextText}` : systemPrompt,
+  }
+  const latest: ChatMessage = { role: 'user', content: prompt }
+  let remaining = tokenBudget - estimateTokens(system.content) - estimateTokens(prompt)
+
+  const turns: ChatMessage[][] = []
+  for (const message of history) {
+    if (message.role === 'system') continue
+    if (message.role === 'user' || turns.length === 0) turns.push([message])
+    else turns[turns.length - 1].push(message)
+  }
+
+  const kept: ChatMessage[][] = []
+  for (let idx = turns.length - 1; idx >= 0; idx--) {
+    const cost = turns[idx].reduce((sum, message) => sum + estimateTokens(message.content), 0)
+    if (cost > remaining) break
+    remaining -= cost
+    kept.unshift(turns[idx])
+  }
+  const keptMessages = kept.flat()
+  if (keptMessages[0]?.role === 'assistant') keptMessages.shift()
+
+  return {
+    messages: [system, ...keptMessages, latest],
+    omittedMessages: history.filter(message => message.role !== 'system').length - keptMessages.length,
+  }
+}
+
+// Sent as the prompt when the user asks to continue a truncated reply
+export const CONTINUE_PROMPT = 'Continue exactly where your last reply stopped. ' +
+  'Do not repeat anything, and if you stopped inside a code block, carry on inside it without opening a new one.'
+
+// The code in the last fenced block of a reply, or null while that block is
+// still open (a streaming or truncated reply) or when there is none
+export const getLastCodeBlock = (content: string): string | null => {
+  const fences = content.match(/^[ \t]*```/gm) ?? []
+  if (fences.length % 2 === 1) return null
+  const matches = Array.from(content.matchAll(/```(?:[a-zA-Z]*)\n([\s\S]*?)```/g))
+  return matches.length > 0 ? matches[matches.length - 1][1].trim() : null
+}
+
+// What a request is for, beyond its messages
+export type ChatRequestExtras = Pick<ChatCompletionRequest, 'kind' | 'problemId' | 'hintLevel'>
+
+// Streams the assistant's reply from the configured provider using the
+// model's own temperature and reply length
+export const streamChatReply = (
+  messages: ChatMessage[],
+  model: ModelConfig,
+  options: StreamOptions,
+  extras: ChatRequestExtras = {}
+): Promise<CompletionResult> =>
+  getLLMProvider().streamChat({
+    model: model.id,
+    messages,
+    temperature: model.temperature,
+    maxTokens: model.maxTokens,
+    ...extras,
+  }, options)
@@ -0,0 +1,104 @@
+import { db } from '../config/firebase'
+import { collection, getDocs, query, Timestamp, where } from 'firebase/firestore'
+import { apiFetch } from './apiClient'
+import { getLLMProvider } from './llm'
+
+export interface PeriodUsage {
+  used: number
+  // 0 means unlimited
+  limit: number
+}
+
+// The signed-in user's AI quota, as reported by the API server
+export interface AIUsage {
+  role: string
+  day: PeriodUsage
+  month: PeriodUsage
+  // The period whose quota is used up, if any
+  exceeded: 'day' | 'month' | null
+}
+
+// One AI request as recorded by the API server in aiUsageEvents
+export interface UsageEvent {
+  userId: string
+  model: string
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  // Counted from the text because the model didn't report usage
+  estimated: boolean
+  costUsd: number
+  createdAt: Date
+}
+
+export interface UserUsageTotal {
+  userId: string
+  requests: number
+  totalTokens: number
+  costUsd: number
+}
+
+export interface ModelUsageTotal {
+  model: string
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+}
+
+// Quotas are only enforced, and usage only recorded, by the API server
+export const tracksAIUsage = () => getLLMProvider().name === 'proxy'
+
+export const getAIUsage = async (): Promise<AIUsage> => {
+  const response = await apiFetch('/ai/usage')
+  return response.json()
+}
+
+// Admin only. Sorted by the caller; queried by time alone so no composite index is needed.
+export const getUsageEvents = async (since: Date): Promise<UsageEvent[]> => {
+  const snapshot = await getDocs(query(
+    collection(db, 'aiUsageEvents'),
+    where('createdAt', '>=', Timestamp.fromDate(since))
+  ))
+  return snapshot.docs.map(eventDoc => {
+    const data = eventDoc.data()
+    return {
+      userId: data.userId,
+      model: data.model,
+      promptTokens: data.promptTokens ?? 0,
+      completionTokens: data.completionTokens ?? 0,
+      totalTokens: data.totalTokens ?? 0,
+      estimated: data.estimated ?? false,
+      costUsd: data.costUsd ?? 0,
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    }
+  })
+}
+
+// Heaviest users first
+export const totalsByUser = (events: UsageEvent[]): UserUsageTotal[] => {
+  const totals = new Map<string, UserUsageTotal>()
+  for (const event of events) {
+    const total = totals.get(event.userId) ?? { userId: event.userId, requests: 0, totalTokens: 0, costUsd: 0 }
+    total.requests++
+    total.totalTokens += event.totalTokens
+    total.costUsd += event.costUsd
+    totals.set(event.userId, total)
+  }
+  return Array.from(totals.values()).sort((a, b) => b.totalTokens - a.totalTokens)
+}
+
+// Most expensive models first
+export const totalsByModel = (events: UsageEvent[]): ModelUsageTotal[] => {
+  const totals = new Map<string, ModelUsageTotal>()
+  for (const event of events) {
+    const total = totals.get(event.model)
+      ?? { model: event.model, requests: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 }
+    total.requests++
+    total.promptTokens += event.promptTokens
+    total.completionTokens += event.completionTokens
+    total.costUsd += event.costUsd
+    totals.set(event.model, total)
+  }
+  return Array.from(totals.values()).sort((a, b) => b.costUsd - a.costUsd)
+}
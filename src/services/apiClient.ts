@@ -0,0 +1,28 @@
+import { auth } from '../config/firebase'
+
+// The backend in server/, which holds the Judge0 and LLM keys. In development
+// Vite proxies /api to it.
+const API_URL = (import.meta.env.VITE_API_URL || '/api').replace(/\/+$/, '')
+
+// Calls the backend as the signed-in user. Rejects with the server's error
+// message for non-2xx responses, e.g. when the rate limit is hit.
+export const apiFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const user = auth.currentUser
+  if (!user) {
+    throw new Error('You must be logged in')
+  }
+  const token = await user.getIdToken()
+  const response = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init.headers,
+      'Authorization': `Bearer ${token}`,
+    },
+  })
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || `Request failed with status ${response.status}`)
+  }
+  return response
+}
@@ -0,0 +1,102 @@
+import { db } from '../config/firebase'
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  DocumentData,
+  getDocs,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore'
+import { ChatEntry } from './aiService'
+
+export interface ChatThread {
+  id: string
+  userId: string
+  problemId: string
+  title: string
+  messages: ChatEntry[]
+  // The last code suggestion the user accepted or rejected, so reopening the
+  // thread doesn't offer it again
+  lastSuggestedCode: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type ThreadUpdate = Partial<Pick<ChatThread, 'title' | 'messages' | 'lastSuggestedCode'>>
+
+// Pending server timestamps read back as null
+const toDate = (value: unknown) => value instanceof Timestamp ? value.toDate() : new Date()
+
+const fromFirestore = (id: string, data: DocumentData): ChatThread => ({
+  id,
+  userId: data.userId,
+  problemId: data.problemId,
+  title: data.title ?? 'Untitled chat',
+  messages: data.messages ?? [],
+  lastSuggestedCode: data.lastSuggestedCode ?? null,
+  createdAt: toDate(data.createdAt),
+  updatedAt: toDate(data.updatedAt),
+})
+
+// Firestore rejects undefined fields. Streaming state is never stored, nor is
+// the review target, whose line numbers are stale once the code changes.
+const toStoredMessage = ({ role, content, truncated, stopped, noReview }: ChatEntry): ChatEntry => ({
+  role,
+  content,
+  ...(truncated ? { truncated } : {}),
+  ...(stopped ? { stopped } : {}),
+  ...(noReview ? { noReview } : {}),
+})
+
+// Most recently used first. Sorted here rather than with orderBy to avoid needing a composite index.
+export const getChatThreads = async (userId: string, problemId: string): Promise<ChatThread[]> => {
+  const threadsQuery = query(
+    collection(db, 'chatThreads'),
+    where('userId', '==', userId),
+    where('problemId', '==', problemId)
+  )
+  const snapshot = await getDocs(threadsQuery)
+  return snapshot.docs
+    .map(threadDoc => fromFirestore(threadDoc.id, threadDoc.data()))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+}
+
+export const createChatThread = async (
+  userId: string,
+  problemId: string,
+  { title = 'New chat', messages = [], lastSuggestedCode = null }: ThreadUpdate = {}
+): Promise<string> => {
+  const threadRef = await addDoc(collection(db, 'chatThreads'), {
+    userId,
+    problemId,
+    title,
+    messages: messages.map(toStoredMessage),
+    lastSuggestedCode,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  })
+  return threadRef.id
+}
+
+export const updateChatThread = async (threadId: string, update: ThreadUpdate) => {
+  await updateDoc(doc(db, 'chatThreads', threadId), {
+    ...update,
+    ...(update.messages ? { messages: update.messages.map(toStoredMessage) } : {}),
+    updatedAt: serverTimestamp(),
+  })
+}
+
+export const deleteChatThread = async (threadId: string) => {
+  await deleteDoc(doc(db, 'chatThreads', threadId))
+}
+
+// A title from the first prompt, for threads the user hasn't named
+export const titleFromPrompt = (prompt: string) => {
+  const firstLine = prompt.trim().split('\n')[0]
+  return firstLine.length > 40 ? `${firstLine.slice(0, 40)}...` : firstLine || 'New chat'
+}
@@ -0,0 +1,269 @@
+import { transform } from 'sucrase'
+import { CodeRunner, ExecutionResult } from './types'
+
+const BROWSER_LANGUAGES = ['javascript', 'typescript']
+
+// Name user code is reported under in stack traces
+const SCRIPT_NAME = 'main.js'
+
+// Runs inside the worker. Network, storage and nested workers are removed
+// before the user script is loaded, console output is forwarded to the page,
+// and 'done' is posted once no timers are left pending. Everything is wrapped
+// in a function so the user script, which runs in the global scope, can't
+// reach the saved importScripts and timer functions.
+const WORKER_SOURCE = `
+(function () {
+  var loadScript = self.importScripts.bind(self);
+  var nativeSetTimeout = self.setTimeout.bind(self);
+  var nativeClearTimeout = self.clearTimeout.bind(self);
+  var nativeSetInterval = self.setInterval.bind(self);
+  var nativeClearInterval = self.clearInterval.bind(self);
+  // fetch and importScripts live on WorkerGlobalScope.prototype, so the whole
+  // prototype chain is locked, not just the global object
+  for (var scope = self; scope && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+    ['fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'BroadcastChannel', 'indexedDB',
+     'caches', 'Worker', 'SharedWorker', 'importScripts'].forEach(function (name) {
+      try { Object.defineProperty(scope, name, { value: undefined }); } catch (e) {}
+    });
+  }
+
+  var pending = {};
+  var pendingCount = 0;
+  var finished = false;
+
+  function send(type, text) { self.postMessage({ type: type, text: text }); }
+
+  function format(value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.name + ': ' + value.message;
+    try { return JSON.stringify(value) === undefined ? String(value) : JSON.stringify(value); }
+    catch (e) { return String(value); }
+  }
+
+  function writer(type) {
+    return function () {
+      send(type, Array.prototype.map.call(arguments, format).join(' ') + '\\n');
+    };
+  }
+
+  function reportError(error, scriptUrl) {
+    var text = (error && error.name ? error.name + ': ' + error.message : 'Uncaught ' + format(error)) + '\\n';
+    var stack = (error && error.stack) || '';
+    var location = stack.split(scriptUrl + ':')[1];
+    var match = location && /^(\\d+):(\\d+)/.exec(location);
+    if (match) text += '    at ${SCRIPT_NAME}:' + match[1] + ':' + match[2] + '\\n';
+    send('error', text);
+  }
+
+  // Just enough of Node's EventEmitter for process.stdin and readline
+  function createEmitter() {
+    var listeners = {};
+    var emitter = {
+      on: function (event, listener) {
+        (listeners[event] = listeners[event] || []).push(listener);
+        return emitter;
+      },
+      once: function (event, listener) {
+        var called = false;
+        return emitter.on(event, function (value) {
+          if (!called) { called = true; listener(value); }
+        });
+      },
+      emit: function (event, value) {
+        (listeners[event] || []).slice().forEach(function (listener) { listener(value); });
+      },
+    };
+    emitter.addListener = emitter.on;
+    return emitter;
+  }
+
+  function finishWhenIdle() {
+    nativeSetTimeout(function () {
+      if (!finished && pendingCount === 0) {
+        finished = true;
+        send('done', '');
+      }
+    }, 0);
+  }
+
+  self.onmessage = function (event) {
+    var data = event.data;
+    console.log = console.info = console.debug = writer('stdout');
+    console.error = console.warn = writer('stderr');
+    self.require = function (name) {
+      if (name === 'fs') {
+        return { readFileSync: function () { return data.stdin; } };
+      }
+      if (name === 'readline') return readline;
+      throw new Error("Cannot find module '" + name + "'");
+    };
+    self.setTimeout = function (callback, delay) {
+      var args = Array.prototype.slice.call(arguments, 2);
+      var id = nativeSetTimeout(function () {
+        delete pending[id];
+        pendingCount--;
+        try { callback.apply(null, args); } catch (error) { reportError(error, data.scriptUrl); }
+        finishWhenIdle();
+      }, delay);
+      pending[id] = true;
+      pendingCount++;
+      return id;
+    };
+    self.clearTimeout = function (id) {
+      if (pending[id]) { delete pending[id]; pendingCount--; }
+      nativeClearTimeout(id);
+      finishWhenIdle();
+    };
+    self.setInterval = function (callback, delay) {
+      var id = nativeSetInterval(function () {
+        try { callback(); } catch (error) { reportError(error, data.scriptUrl); }
+      }, delay);
+      pending['interval' + id] = true;
+      pendingCount++;
+      return id;
+    };
+    self.clearInterval = function (id) {
+      if (pending['interval' + id]) { delete pending['interval' + id]; pendingCount--; }
+      nativeClearInterval(id);
+      finishWhenIdle();
+    };
+    self.onunhandledrejection = function (event) { reportError(event.reason, data.scriptUrl); };
+
+    // Input is delivered once the script has run and attached its listeners,
+    // through the wrapped setTimeout so 'done' waits for it
+    var schedule = self.setTimeout;
+    var lines = data.stdin.split(/\\r?\\n/);
+    if (lines[lines.length - 1] === '') lines.pop();
+
+    var stdin = createEmitter();
+    stdin.fd = 0;
+    stdin.setEncoding = stdin.resume = stdin.pause = function () { return stdin; };
+    schedule(function () {
+      if (data.stdin) stdin.emit('data', data.stdin);
+      stdin.emit('end');
+    }, 0);
+    self.process = {
+      argv: [],
+      env: {},
+      stdin: stdin,
+      stdout: { write: function (text) { send('stdout', String(text)); } },
+      stderr: { write: function (text) { send('stderr', String(text)); } },
+    };
+
+    // readline.createInterface reads the whole input, whatever its options
+    var readline = {
+      createInterface: function () {
+        var rl = createEmitter();
+        var closed = false;
+        rl.close = function () {
+          if (!closed) { closed = true; rl.emit('close'); }
+        };
+        rl.setPrompt = rl.prompt = rl.pause = rl.resume = function () { return rl; };
+        // for await (const line of rl)
+        rl[Symbol.asyncIterator] = function () {
+          var index = 0;
+          return {
+            next: function () {
+              return Promise.resolve(index < lines.length ? { value: lines[index++], done: false } : { value: undefined, done: true });
+            },
+          };
+        };
+        schedule(function () {
+          for (var i = 0; i < lines.length && !closed; i++) rl.emit('line', lines[i]);
+          rl.close();
+        }, 0);
+        return rl;
+      },
+    };
+    try {
+      loadScript(data.scriptUrl);
+    } catch (error) {
+      reportError(error, data.scriptUrl);
+      send('done', '');
+      finished = true;
+      return;
+    }
+    finishWhenIdle();
+  };
+})();
+`
+
+interface BrowserRunnerOptions {
+  // Wall-clock limit; the worker is terminated once it is exceeded
+  timeoutMs?: number
+}
+
+const compile = (code: string, language: string): string =>
+  language === 'typescript'
+    ? transform(code, { transforms: ['typescript'], disableESTransforms: true }).code
+    : code
+
+export const createBrowserRunner = ({ timeoutMs = 5000 }: BrowserRunnerOptions = {}): CodeRunner => ({
+  name: 'browser',
+  supportsLanguage: (language) => BROWSER_LANGUAGES.includes(language),
+  run: async ({ code, language, stdin = '' }) => {
+    let compiled: string
+    try {
+      compiled = compile(code, language)
+    } catch (error) {
+      return {
+        status: 'compilation_error',
+        stdout: null,
+        stderr: null,
+        compileOutput: error instanceof Error ? error.message : String(error),
+        message: null,
+        time: null,
+        memory: null,
+      }
+    }
+
+    const workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }))
+    const scriptUrl = URL.createObjectURL(new Blob([compiled], { type: 'text/javascript' }))
+    const worker = new Worker(workerUrl)
+    const startedAt = performance.now()
+    let stdout = ''
+    let stderr = ''
+    // An uncaught error, as opposed to output the program chose to write to stderr
+    let failed = false
+
+    const result = await new Promise<ExecutionResult>(resolve => {
+      const finish = (status: ExecutionResult['status'], message: string | null) => {
+        clearTimeout(timer)
+        worker.terminate()
+        resolve({
+          status: status === 'ok' && failed ? 'runtime_error' : status,
+          stdout: stdout || null,
+          stderr: stderr || null,
+          compileOutput: null,
+          message,
+          time: Number(((performance.now() - startedAt) / 1000).toFixed(3)),
+          memory: null,
+        })
+      }
+      const timer = setTimeout(
+        () => finish('time_limit_exceeded', `Time limit exceeded (${timeoutMs / 1000}s)`),
+        timeoutMs
+      )
+      worker.onmessage = (event: MessageEvent<{ type: 'stdout' | 'stderr' | 'error' | 'done', text: string }>) => {
+        const { type, text } = event.data
+        if (type === 'stdout') stdout += text
+        else if (type === 'stderr') stderr += text
+        else if (type === 'error') {
+          stderr += text
+          failed = true
+        } else finish('ok', null)
+      }
+      // Errors the bootstrap could not catch, e.g. syntax errors in the user script
+      worker.onerror = (event) => {
+        event.preventDefault()
+        stderr += `${event.message}\n    at ${SCRIPT_NAME}:${event.lineno}:${event.colno}\n`
+        finish('runtime_error', null)
+      }
+      worker.postMessage({ scriptUrl, stdin })
+    })
+
+    URL.revokeObjectURL(workerUrl)
+    URL.revokeObjectURL(scriptUrl)
+    return result
+  },
+})
@@ -0,0 +1,17 @@
+import { CodeRunner } from './types'
+
+// Delegates each run to the first runner that supports its language
+export const createCompositeRunner = (runners: CodeRunner[]): CodeRunner => {
+  const runnerFor = (language: string) => runners.find(runner => runner.supportsLanguage(language))
+  return {
+    name: runners.map(runner => runner.name).join('+'),
+    supportsLanguage: (language) => !!runnerFor(language),
+    run: async (request) => {
+      const runner = runnerFor(request.language)
+      if (!runner) {
+        throw new Error('Unsupported language')
+      }
+      return runner.run(request)
+    },
+  }
+}
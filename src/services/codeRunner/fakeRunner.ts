@@ -0,0 +1,47 @@
+import { CodeRunner, ExecutionResult, RunRequest } from './types'
+
+type FakeResponder = (request: RunRequest) => Partial<ExecutionResult> | Promise<Partial<ExecutionResult>>
+
+interface FakeRunnerOptions {
+  languages?: string[]
+  // Defaults to echoing stdin back as stdout
+  respond?: FakeResponder
+  latencyMs?: number
+}
+
+export interface FakeRunner extends CodeRunner {
+  // Every request the runner received, oldest first
+  requests: RunRequest[]
+}
+
+const echoStdin: FakeResponder = ({ stdin }) => ({ stdout: stdin || '' })
+
+export const createFakeRunner = ({
+  languages = ['javascript', 'typescript', 'python', 'java', 'cpp'],
+  respond = echoStdin,
+  latencyMs = 0,
+}: FakeRunnerOptions = {}): FakeRunner => {
+  const requests: RunRequest[] = []
+  return {
+    name: 'fake',
+    requests,
+    supportsLanguage: (language) => languages.includes(language),
+    run: async (request) => {
+      requests.push(request)
+      if (latencyMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, latencyMs))
+      }
+      const result = await respond(request)
+      return {
+        status: 'ok',
+        stdout: null,
+        stderr: null,
+        compileOutput: null,
+        message: null,
+        time: null,
+        memory: null,
+        ...result,
+      }
+    },
+  }
+}
@@ -0,0 +1,48 @@
+import { createBrowserRunner } from './browserRunner'
+import { createCompositeRunner } from './compositeRunner'
+import { createFakeRunner } from './fakeRunner'
+import { createProxyRunner } from './proxyRunner'
+import { CodeRunner } from './types'
+
+export type { CodeRunner, ExecutionResult, ExecutionStatus, RunRequest } from './types'
+export { createProxyRunner } from './proxyRunner'
+export { createFakeRunner } from './fakeRunner'
+export { createBrowserRunner } from './browserRunner'
+export { createCompositeRunner } from './compositeRunner'
+
+let activeRunner: CodeRunner | null = null
+
+// VITE_CODE_RUNNER picks the backend: 'proxy' (default) runs code through the
+// API server in server/, 'fake' runs nothing
+const createRemoteRunner = (): CodeRunner => {
+  const kind = import.meta.env.VITE_CODE_RUNNER || 'proxy'
+  switch (kind) {
+    case 'proxy':
+      return createProxyRunner()
+    case 'fake':
+      return createFakeRunner()
+    default:
+      throw new Error(`Unknown code runner: ${kind}`)
+  }
+}
+
+// JavaScript and TypeScript run in a sandboxed worker unless VITE_BROWSER_RUNNER is 'false'
+const createConfiguredRunner = (): CodeRunner => {
+  const remote = createRemoteRunner()
+  if (import.meta.env.VITE_BROWSER_RUNNER === 'false' || remote.name === 'fake') {
+    return remote
+  }
+  return createCompositeRunner([createBrowserRunner(), remote])
+}
+
+export const getCodeRunner = (): CodeRunner => {
+  if (!activeRunner) {
+    activeRunner = createConfiguredRunner()
+  }
+  return activeRunner
+}
+
+// Overrides the configured runner, e.g. with a fake in tests; pass null to reset
+export const setCodeRunner = (runner: CodeRunner | null) => {
+  activeRunner = runner
+}
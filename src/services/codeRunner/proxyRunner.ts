@@ -0,0 +1,19 @@
+import { apiFetch } from '../apiClient'
+import { CodeRunner, ExecutionResult } from './types'
+
+// Languages the backend's Judge0 supports
+const PROXY_LANGUAGES = ['javascript', 'typescript', 'python', 'java', 'cpp']
+
+// Runs code through the backend's /run endpoint, which calls Judge0 with
+// server-held credentials
+export const createProxyRunner = (): CodeRunner => ({
+  name: 'proxy',
+  supportsLanguage: (language) => PROXY_LANGUAGES.includes(language),
+  run: async ({ code, language, stdin = '' }): Promise<ExecutionResult> => {
+    const response = await apiFetch('/run', {
+      method: 'POST',
+      body: JSON.stringify({ code, language, stdin }),
+    })
+    return response.json()
+  },
+})
@@ -0,0 +1,30 @@
+export type ExecutionStatus =
+  | 'ok'
+  | 'compilation_error'
+  | 'runtime_error'
+  | 'time_limit_exceeded'
+  | 'internal_error'
+
+export interface ExecutionResult {
+  status: ExecutionStatus
+  stdout: string | null
+  stderr: string | null
+  compileOutput: string | null
+  // Extra detail from the backend, e.g. the Judge0 status description
+  message: string | null
+  // Seconds and kilobytes; null when the backend doesn't report them
+  time: number | null
+  memory: number | null
+}
+
+export interface RunRequest {
+  code: string
+  language: string
+  stdin?: string
+}
+
+export interface CodeRunner {
+  name: string
+  supportsLanguage: (language: string) => boolean
+  run: (request: RunRequest) => Promise<ExecutionResult>
+}
@@ -0,0 +1,137 @@
+import { db } from '../config/firebase'
+import { doc, deleteDoc, DocumentData, getDoc, onSnapshot, runTransaction, Timestamp } from 'firebase/firestore'
+
+export interface Draft {
+  code: string
+  updatedAt: Date
+  // Incremented on every save; a save based on an older revision is a conflict
+  revision: number
+  // Browser tab that wrote this revision
+  tabId: string
+}
+
+export type SaveDraftResult =
+  | { status: 'saved', draft: Draft }
+  | { status: 'conflict', remote: Draft }
+
+// Identifies this tab so its own writes aren't reported as conflicts
+export const TAB_ID = crypto.randomUUID()
+
+const draftId = (userId: string, problemId: string, language: string) => `${userId}_${problemId}_${language}`
+
+const localKey = (userId: string, problemId: string, language: string) =>
+  `draft:${draftId(userId, problemId, language)}`
+
+const fromFirestore = (data: DocumentData): Draft => ({
+  code: data.code,
+  updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(data.updatedAt),
+  revision: data.revision ?? 0,
+  tabId: data.tabId ?? '',
+})
+
+export const readLocalDraft = (userId: string, problemId: string, language: string): Draft | null => {
+  try {
+    const raw = localStorage.getItem(localKey(userId, problemId, language))
+    if (!raw) return null
+    const parsed = JSON.parse(raw)
+    return { ...parsed, updatedAt: new Date(parsed.updatedAt) }
+  } catch (error) {
+    console.error('Error reading local draft:', error)
+    return null
+  }
+}
+
+const writeLocalDraft = (userId: string, problemId: string, language: string, draft: Draft) => {
+  try {
+    localStorage.setItem(localKey(userId, problemId, language), JSON.stringify(draft))
+  } catch (error) {
+    console.error('Error writing local draft:', error)
+  }
+}
+
+// The newest of the local cache and Firestore; the cache wins while offline
+export const loadDraft = async (userId: string, problemId: string, language: string): Promise<Draft | null> => {
+  const local = readLocalDraft(userId, problemId, language)
+  try {
+    const snapshot = await getDoc(doc(db, 'drafts', draftId(userId, problemId, language)))
+    const remote = snapshot.exists() ? fromFirestore(snapshot.data()) : null
+    if (!remote) return local
+    if (!local || remote.updatedAt >= local.updatedAt) {
+      writeLocalDraft(userId, problemId, language, remote)
+      return remote
+    }
+    return local
+  } catch (error) {
+    console.error('Error loading draft:', error)
+    return local
+  }
+}
+
+// Syncs to Firestore unless another tab saved a newer revision since
+// `baseRevision`. The local cache is written once the save commits, so a
+// conflicting draft never overwrites the other tab's cached code; when
+// Firestore can't be reached it is written anyway to keep the code offline.
+export const saveDraft = async (
+  userId: string,
+  problemId: string,
+  language: string,
+  code: string,
+  baseRevision: number
+): Promise<SaveDraftResult> => {
+  const draftRef = doc(db, 'drafts', draftId(userId, problemId, language))
+  let result: SaveDraftResult
+  try {
+    // The callback can run more than once, so the draft is rebuilt each time
+    result = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(draftRef)
+      const draft: Draft = { code, updatedAt: new Date(), revision: baseRevision + 1, tabId: TAB_ID }
+      if (snapshot.exists()) {
+        const remote = fromFirestore(snapshot.data())
+        if (remote.revision > baseRevision && remote.tabId !== TAB_ID && remote.code !== code) {
+          return { status: 'conflict', remote } as const
+        }
+        draft.revision = Math.max(remote.revision, baseRevision) + 1
+      }
+      transaction.set(draftRef, { ...draft, userId, problemId, language })
+      return { status: 'saved', draft } as const
+    })
+  } catch (error) {
+    writeLocalDraft(userId, problemId, language, { code, updatedAt: new Date(), revision: baseRevision + 1, tabId: TAB_ID })
+    throw error
+  }
+  if (result.status === 'saved') writeLocalDraft(userId, problemId, language, result.draft)
+  return result
+}
+
+export const deleteDraft = async (userId: string, problemId: string, language: string) => {
+  localStorage.removeItem(localKey(userId, problemId, language))
+  try {
+    await deleteDoc(doc(db, 'drafts', draftId(userId, problemId, language)))
+  } catch (error) {
+    console.error('Error deleting draft:', error)
+  }
+}
+
+// Reports drafts written by other tabs, through Firestore and the shared local cache
+export const subscribeToDraft = (
+  userId: string,
+  problemId: string,
+  language: string,
+  onExternalChange: (draft: Draft) => void
+) => {
+  const unsubscribe = onSnapshot(doc(db, 'drafts', draftId(userId, problemId, language)), (snapshot) => {
+    if (!snapshot.exists() || snapshot.metadata.hasPendingWrites) return
+    const draft = fromFirestore(snapshot.data())
+    if (draft.tabId !== TAB_ID) onExternalChange(draft)
+  })
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== localKey(userId, problemId, language) || !event.newValue) return
+    const draft = readLocalDraft(userId, problemId, language)
+    if (draft && draft.tabId !== TAB_ID) onExternalChange(draft)
+  }
+  window.addEventListener('storage', handleStorage)
+  return () => {
+    unsubscribe()
+    window.removeEventListener('storage', handleStorage)
+  }
+}
@@ -0,0 +1,75 @@
+import { getLanguageLabel } from '../config/languages'
+import { getDefaultModel } from '../config/models'
+import { ChatMessage, streamChatReply } from './aiService'
+
+export interface CompletionContext {
+  language: string
+  problemId?: string
+  problemTitle?: string
+  // Code before and after the cursor
+  prefix: string
+  suffix: string
+}
+
+// Only code near the cursor is sent; completions are about the next few lines
+const MAX_PREFIX_CHARS = 3000
+const MAX_SUFFIX_CHARS = 1000
+const COMPLETION_MAX_TOKENS = 128
+const CACHE_SIZE = 100
+
+const CURSOR = '<CURSOR>'
+
+const SYSTEM_PROMPT = 'You are a code completion engine. ' +
+  `Reply with only the code that belongs at ${CURSOR}: no explanation, no code fences, ` +
+  'and nothing already present before or after the cursor. Prefer finishing the current line or block. ' +
+  'Reply with nothing if no completion is appropriate.'
+
+export const buildCompletionMessages = ({ language, problemTitle, prefix, suffix }: CompletionContext): ChatMessage[] => {
+  const code = prefix.slice(-MAX_PREFIX_CHARS) + CURSOR + suffix.slice(0, MAX_SUFFIX_CHARS)
+  const task = problemTitle ? `Problem: ${problemTitle}\n` : ''
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: `${task}Language: ${getLanguageLabel(language)}\n\n${code}` },
+  ]
+}
+
+// Models sometimes wrap the answer in a fence despite the instructions
+export const cleanCompletion = (text: string) => {
+  const fenced = text.match(/^\s*```[a-zA-Z]*\n([\s\S]*?)\n?```\s*$/)
+  return fenced ? fenced[1] : text
+}
+
+// Recently used completions keyed by everything that went into the prompt
+const cache = new Map<string, string>()
+
+const cacheKey = ({ language, problemTitle, prefix, suffix }: CompletionContext) =>
+  JSON.stringify([language, problemTitle, prefix.slice(-MAX_PREFIX_CHARS), suffix.slice(0, MAX_SUFFIX_CHARS)])
+
+// The completion for the code at the cursor, from the cache when the same
+// prefix was completed before. Resolves to '' if aborted.
+export const getInlineCompletion = async (context: CompletionContext, signal: AbortSignal): Promise<string> => {
+  const key = cacheKey(context)
+  const cached = cache.get(key)
+  if (cached !== undefined) {
+    // Refresh its position so the least recently used entry is evicted first
+    cache.delete(key)
+    cache.set(key, cached)
+    return cached
+  }
+
+  const model = getDefaultModel()
+  const { content, finishReason } = await streamChatReply(
+    buildCompletionMessages(context),
+    { ...model, maxTokens: COMPLETION_MAX_TOKENS, temperature: 0 },
+    { signal, onDelta: () => {} },
+    { kind: 'completion', problemId: context.problemId }
+  )
+  if (finishReason === 'aborted') return ''
+
+  const completion = cleanCompletion(content)
+  cache.set(key, completion)
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!)
+  }
+  return completion
+}
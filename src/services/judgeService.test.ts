@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createFakeRunner } from './codeRunner/fakeRunner'
+import { judgeSolution, normalizeOutput, outputsMatch, runSamples } from './judgeService'
+
+// The default runner talks to Firebase Auth, which needs a real config
+vi.mock('../config/firebase', () => ({ auth: {}, db: {} }))
+
+const testCases = [
+  { input: '1', expectedOutput: '1' },
+  { input: '2', expectedOutput: '2' },
+]
+
+describe('normalizeOutput', () => {
+  it('ignores trailing whitespace and blank lines', () => {
+    expect(normalizeOutput('1 2  \r\n3\t\n\n')).toBe('1 2\n3')
+    expect(outputsMatch('a\n b', 'a\nb')).toBe(false)
+  })
+})
+
+describe('judgeSolution', () => {
+  it('accepts matching output', async () => {
+    const result = await judgeSolution('code', 'python', testCases, createFakeRunner())
+    expect(result).toMatchObject({ verdict: 'Accepted', passed: 2, total: 2 })
+  })
+
+  it('reports the first failing verdict', async () => {
+    const runner = createFakeRunner({ respond: ({ stdin }) => ({ stdout: stdin === '2' ? '3' : stdin }) })
+    const result = await judgeSolution('code', 'python', testCases, runner)
+    expect(result.verdict).toBe('Wrong Answer')
+    expect(result.results.map(test => test.verdict)).toEqual(['Accepted', 'Wrong Answer'])
+    expect(result.passed).toBe(1)
+  })
+
+  it('maps execution statuses to verdicts', async () => {
+    const verdictFor = async (status: 'time_limit_exceeded' | 'runtime_error' | 'internal_error') => {
+      const runner = createFakeRunner({ respond: ({ stdin }) => ({ status, stdout: stdin }) })
+      return (await judgeSolution('code', 'python', testCases.slice(0, 1), runner)).verdict
+    }
+    expect(await verdictFor('time_limit_exceeded')).toBe('Time Limit Exceeded')
+    expect(await verdictFor('runtime_error')).toBe('Runtime Error')
+    expect(await verdictFor('internal_error')).toBe('Runtime Error')
+  })
+
+  it('does not fail a run for stderr output alone', async () => {
+    const runner = createFakeRunner({ respond: ({ stdin }) => ({ stdout: stdin, stderr: 'warning' }) })
+    expect((await judgeSolution('code', 'python', testCases, runner)).verdict).toBe('Accepted')
+  })
+
+  it('stops after a compilation error', async () => {
+    const runner = createFakeRunner({ respond: () => ({ status: 'compilation_error', compileOutput: 'error' }) })
+    const result = await judgeSolution('code', 'cpp', testCases, runner)
+    expect(result).toMatchObject({ verdict: 'Compilation Error', passed: 0, total: 2 })
+    expect(runner.requests).toHaveLength(1)
+  })
+})
+
+describe('runSamples', () => {
+  it('runs every sample and keeps the error output', async () => {
+    const runner = createFakeRunner({
+      respond: ({ stdin }) => stdin === '2' ? { status: 'runtime_error', stderr: 'boom' } : { stdout: stdin },
+    })
+    const samples = testCases.map((testCase, idx) => ({ ...testCase, name: `Sample ${idx + 1}` }))
+    const results = await runSamples('code', 'python', samples, runner)
+    expect(results.map(result => result.verdict)).toEqual(['Accepted', 'Runtime Error'])
+    expect(results[0]).toMatchObject({ actualOutput: '1', errorOutput: null })
+    expect(results[1]).toMatchObject({ actualOutput: '', errorOutput: 'boom' })
+  })
+})
@@ -0,0 +1,102 @@
+import { CodeRunner, ExecutionResult, getCodeRunner } from './codeRunner'
+
+export type Verdict =
+  | 'Accepted'
+  | 'Wrong Answer'
+  | 'Time Limit Exceeded'
+  | 'Runtime Error'
+  | 'Compilation Error'
+
+export interface TestCase {
+  input: string
+  expectedOutput: string
+}
+
+// Public examples shown with the statement, unlike the hidden test cases
+export interface SampleCase extends TestCase {
+  name: string
+}
+
+export interface SampleResult {
+  sample: SampleCase
+  verdict: Verdict
+  actualOutput: string
+  // Compiler or runtime error text, if any
+  errorOutput: string | null
+}
+
+export interface TestResult {
+  verdict: Verdict
+  time: number | null
+  memory: number | null
+}
+
+export interface JudgeResult {
+  verdict: Verdict
+  results: TestResult[]
+  passed: number
+  total: number
+}
+
+// Ignore trailing whitespace on each line and trailing blank lines
+export const normalizeOutput = (output: string): string =>
+  output.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trimEnd()
+
+export const outputsMatch = (actual: string, expected: string): boolean =>
+  normalizeOutput(actual) === normalizeOutput(expected)
+
+const getVerdict = (execution: ExecutionResult, expectedOutput: string): Verdict => {
+  if (execution.status === 'compilation_error' || execution.compileOutput) {
+    return 'Compilation Error'
+  }
+  if (execution.status === 'time_limit_exceeded') {
+    return 'Time Limit Exceeded'
+  }
+  // Output on stderr alone, e.g. a logged warning, doesn't fail a run
+  if (execution.status !== 'ok') {
+    return 'Runtime Error'
+  }
+  return outputsMatch(execution.stdout || '', expectedOutput) ? 'Accepted' : 'Wrong Answer'
+}
+
+export const judgeSolution = async (
+  code: string,
+  language: string,
+  testCases: TestCase[],
+  runner: CodeRunner = getCodeRunner()
+): Promise<JudgeResult> => {
+  const results: TestResult[] = []
+  for (const testCase of testCases) {
+    const execution = await runner.run({ code, language, stdin: testCase.input })
+    const verdict = getVerdict(execution, testCase.expectedOutput)
+    results.push({ verdict, time: execution.time, memory: execution.memory })
+    // The remaining tests would fail to compile in exactly the same way
+    if (verdict === 'Compilation Error') break
+  }
+  const firstFailure = results.find(result => result.verdict !== 'Accepted')
+  return {
+    verdict: firstFailure ? firstFailure.verdict : 'Accepted',
+    results,
+    passed: results.filter(result => result.verdict === 'Accepted').length,
+    total: testCases.length,
+  }
+}
+
+export const runSamples = async (
+  code: string,
+  language: string,
+  samples: SampleCase[],
+  runner: CodeRunner = getCodeRunner()
+): Promise<SampleResult[]> => {
+  const results: SampleResult[] = []
+  for (const sample of samples) {
+    const execution = await runner.run({ code, language, stdin: sample.input })
+    results.push({
+      sample,
+      verdict: getVerdict(execution, sample.expectedOutput),
+      actualOutput: execution.stdout || '',
+      errorOutput: execution.compileOutput || execution.stderr || null,
+    })
+  }
+  return results
+}
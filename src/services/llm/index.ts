@@ -0,0 +1,55 @@
+import { createMockProvider } from './mockProvider'
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider'
+import { createProxyProvider } from './proxyProvider'
+import { LLMProvider } from './types'
+
+export type {
+  ChatCompletionRequest,
+  ChatMessage,
+  ChatRole,
+  CompletionKind,
+  CompletionResult,
+  FinishReason,
+  LLMProvider,
+  StreamOptions,
+} from './types'
+export { createOpenAICompatibleProvider } from './openAICompatibleProvider'
+export { createProxyProvider } from './proxyProvider'
+export { createMockProvider } from './mockProvider'
+
+let activeProvider: LLMProvider | null = null
+
+// VITE_LLM_PROVIDER picks the backend: 'proxy' (default) goes through the API
+// server in server/, 'compatible' straight to a keyless OpenAI-compatible
+// server at VITE_LLM_BASE_URL, and 'mock' stays offline
+const createConfiguredProvider = (): LLMProvider => {
+  const kind = import.meta.env.VITE_LLM_PROVIDER || 'proxy'
+  switch (kind) {
+    case 'proxy':
+      return createProxyProvider()
+    case 'compatible':
+      if (!import.meta.env.VITE_LLM_BASE_URL) {
+        throw new Error('VITE_LLM_BASE_URL must be set to use an OpenAI-compatible server')
+      }
+      return createOpenAICompatibleProvider({
+        name: 'compatible',
+        baseUrl: import.meta.env.VITE_LLM_BASE_URL,
+      })
+    case 'mock':
+      return createMockProvider()
+    default:
+      throw new Error(`Unknown LLM provider: ${kind}`)
+  }
+}
+
+export const getLLMProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createConfiguredProvider()
+  }
+  return activeProvider
+}
+
+// Overrides the configured provider, e.g. with a mock in tests; pass null to reset
+export const setLLMProvider = (provider: LLMProvider | null) => {
+  activeProvider = provider
+}
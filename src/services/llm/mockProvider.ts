@@ -0,0 +1,54 @@
+import { ChatCompletionRequest, CompletionResult, FinishReason, LLMProvider } from './types'
+
+type MockResponder = (request: ChatCompletionRequest) => string | Promise<string>
+
+interface MockProviderOptions {
+  // Defaults to a fixed reply quoting the last user message
+  respond?: MockResponder
+  // Characters per streamed chunk
+  chunkSize?: number
+  // Delay before each chunk
+  latencyMs?: number
+}
+
+export interface MockProvider extends LLMProvider {
+  // Every request the provider received, oldest first
+  requests: ChatCompletionRequest[]
+}
+
+const quoteLastPrompt: MockResponder = ({ messages }) => {
+  const prompt = [...messages].reverse().find(message => message.role === 'user')?.content ?? ''
+  return `Mock reply to: ${prompt}`
+}
+
+// Deterministic and offline: streams the responder's text in fixed-size
+// chunks and applies maxTokens (at four characters a token) like a real model
+export const createMockProvider = ({
+  respond = quoteLastPrompt,
+  chunkSize = 8,
+  latencyMs = 0,
+}: MockProviderOptions = {}): MockProvider => {
+  const requests: ChatCompletionRequest[] = []
+  return {
+    name: 'mock',
+    requests,
+    streamChat: async (request, { signal, onDelta }): Promise<CompletionResult> => {
+      requests.push(request)
+      const reply = await respond(request)
+      const limit = request.maxTokens * 4
+      const text = reply.slice(0, limit)
+      const finishReason: FinishReason = reply.length > limit ? 'length' : 'stop'
+      let content = ''
+      for (let idx = 0; idx < text.length; idx += chunkSize) {
+        if (latencyMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, latencyMs))
+        }
+        if (signal?.aborted) return { content, finishReason: 'aborted' }
+        const chunk = text.slice(idx, idx + chunkSize)
+        content += chunk
+        onDelta(chunk)
+      }
+      return { content, finishReason }
+    },
+  }
+}
@@ -0,0 +1,23 @@
+import { createStreamingProvider, toOpenAIBody } from './streamingProvider'
+import { LLMProvider } from './types'
+
+interface OpenAICompatibleProviderOptions {
+  name: string
+  // Up to and including the version, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl: string
+}
+
+// Talks straight to a keyless OpenAI-compatible server such as a local Ollama,
+// llama.cpp or vLLM. Anything that needs an API key goes through the proxy.
+export const createOpenAICompatibleProvider = ({
+  name,
+  baseUrl,
+}: OpenAICompatibleProviderOptions): LLMProvider =>
+  createStreamingProvider(name, (request, signal) =>
+    fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toOpenAIBody(request)),
+      signal,
+    })
+  )
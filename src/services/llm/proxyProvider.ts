@@ -0,0 +1,16 @@
+import { apiFetch } from '../apiClient'
+import { createStreamingProvider, toOpenAIBody } from './streamingProvider'
+import { LLMProvider } from './types'
+
+// Streams completions through the backend, which forwards them to the
+// upstream model with the server's API key. Editor completions use their own
+// endpoint so typing doesn't use up the chat rate limit. The problem and hint
+// level let the server apply tutor mode and count AI help itself.
+export const createProxyProvider = (): LLMProvider =>
+  createStreamingProvider('proxy', (request, signal) =>
+    apiFetch(request.kind === 'completion' ? '/ai/complete' : '/ai/chat', {
+      method: 'POST',
+      body: JSON.stringify({ ...toOpenAIBody(request), problem_id: request.problemId, hint_level: request.hintLevel }),
+      signal,
+    })
+  )
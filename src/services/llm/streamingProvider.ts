@@ -0,0 +1,56 @@
+import { ChatCompletionRequest, FinishReason, LLMProvider } from './types'
+
+// Sends the request and returns the streaming response
+type SendRequest = (request: ChatCompletionRequest, signal?: AbortSignal) => Promise<Response>
+
+// The OpenAI chat completions body for a request
+export const toOpenAIBody = ({ model, messages, temperature, maxTokens }: ChatCompletionRequest) => ({
+  model,
+  messages,
+  max_tokens: maxTokens,
+  temperature,
+  stream: true,
+})
+
+// Reads OpenAI's server-sent events format from whatever `send` returns, so
+// direct and proxied providers share one parser
+export const createStreamingProvider = (name: string, send: SendRequest): LLMProvider => ({
+  name,
+  streamChat: async (request: ChatCompletionRequest, { signal, onDelta }) => {
+    let content = ''
+    let finishReason: FinishReason = 'stop'
+    try {
+      const response = await send(request, signal)
+      if (!response.ok || !response.body) {
+        const error = await response.text()
+        throw new Error(error)
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+      let buffer = ''
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer += value
+        // Events are separated by newlines; the last piece may be incomplete
+        const lines = buffer.split('\n')
+        buffer = lines.pop() ?? ''
+        for (const line of lines) {
+          const data = line.replace(/^data: ?/, '').trim()
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue
+          const choice = JSON.parse(data).choices?.[0]
+          const delta: string | undefined = choice?.delta?.content
+          if (delta) {
+            content += delta
+            onDelta(delta)
+          }
+          if (choice?.finish_reason === 'length') finishReason = 'length'
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) return { content, finishReason: 'aborted' }
+      throw error
+    }
+    return { content, finishReason }
+  },
+})
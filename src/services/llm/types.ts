@@ -0,0 +1,43 @@
+export type ChatRole = 'system' | 'user' | 'assistant'
+
+export interface ChatMessage {
+  role: ChatRole
+  content: string
+}
+
+// 'completion' marks editor ghost text, which the API server limits separately from chat
+export type CompletionKind = 'chat' | 'completion'
+
+export interface ChatCompletionRequest {
+  model: string
+  messages: ChatMessage[]
+  temperature: number
+  maxTokens: number
+  // Defaults to 'chat'
+  kind?: CompletionKind
+  // The problem being worked on, which the API server checks for tutor mode
+  problemId?: string
+  // Rung of the hint ladder a hint request climbs to, counted by the API server
+  hintLevel?: number
+}
+
+// 'length' means the reply hit maxTokens; 'aborted' that the caller cancelled it
+export type FinishReason = 'stop' | 'length' | 'aborted'
+
+export interface CompletionResult {
+  content: string
+  finishReason: FinishReason
+}
+
+export interface StreamOptions {
+  signal?: AbortSignal
+  // Called with each new piece of text as it arrives
+  onDelta: (text: string) => void
+}
+
+export interface LLMProvider {
+  name: string
+  // Resolves with the full reply once the stream ends. Aborting through
+  // `signal` resolves with what arrived so far instead of rejecting.
+  streamChat: (request: ChatCompletionRequest, options: StreamOptions) => Promise<CompletionResult>
+}
@@ -0,0 +1,217 @@
+import { db } from '../config/firebase'
+import {
+  addDoc,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  documentId,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  serverTimestamp,
+  setDoc,
+  startAfter,
+  where,
+} from 'firebase/firestore'
+import { SampleCase, TestCase } from './judgeService'
+
+// Drafts are only visible in the admin console; problems without a status are published
+export type PublishStatus = 'draft' | 'published'
+
+export interface ProblemSummary {
+  id: string
+  title: string
+  difficulty: string
+  status?: PublishStatus
+  // Short plain-text summary shown on the dashboard
+  description: string
+  // Topic tags, e.g. ['arrays', 'two-pointers']
+  tags?: string[]
+}
+
+export interface ProblemExample {
+  input: string
+  output: string
+  // Markdown
+  explanation?: string
+}
+
+// Text fields are markdown with GFM and $math$ unless noted otherwise
+export interface Problem extends ProblemSummary {
+  // Full statement; problems without one show `description`
+  statement?: string
+  inputFormat?: string
+  outputFormat?: string
+  // One markdown item per constraint, e.g. '$1 \\le n \\le 10^5$'
+  constraints?: string[]
+  examples?: ProblemExample[]
+  // Revealed one at a time, from gentlest to most specific
+  hints?: string[]
+  // Legacy single starter, assumed to be JavaScript
+  initialCode: string
+  // Starter code keyed by language id, e.g. { python: 'def solve():...' }
+  starterCode?: Record<string, string>
+  samples?: SampleCase[]
+  // The assistant guides with hints instead of writing solutions
+  tutorMode?: boolean
+}
+
+// Reference solutions and hidden test cases are kept in their own
+// collections so students can't read them along with the problem
+export interface ReferenceSolution {
+  language: string
+  code: string
+}
+
+export const DIFFICULTIES = ['Easy', 'Medium', 'Hard']
+
+export type ProblemSort = 'title' | '-title' | 'difficulty' | '-difficulty'
+
+export interface ProblemQuery {
+  difficulty?: string
+  tag?: string
+  sort: ProblemSort
+}
+
+// Where the next page starts: after `after`, or at the start of the
+// `difficulty` group when sorting by difficulty
+export interface ProblemCursor {
+  after: QueryDocumentSnapshot | null
+  difficulty?: string
+}
+
+export interface ProblemPage {
+  problems: ProblemSummary[]
+  // Pass back to fetchProblemsPage to load the next page; null when there are no more
+  cursor: ProblemCursor | null
+}
+
+export const PROBLEMS_PAGE_SIZE = 12
+
+// Filtering by difficulty or tag together with the sort needs the composite
+// indexes in firestore.indexes.json. Sorting by difficulty pages through one
+// difficulty at a time, by title, since the names don't sort in order.
+export const fetchProblemsPage = async (
+  { difficulty, tag, sort }: ProblemQuery,
+  cursor: ProblemCursor | null = null
+): Promise<ProblemPage> => {
+  const byDifficulty = sort === 'difficulty' || sort === '-difficulty'
+  const groups = difficulty ? [difficulty] : sort === '-difficulty' ? [...DIFFICULTIES].reverse() : DIFFICULTIES
+  const group = byDifficulty ? cursor?.difficulty ?? groups[0] : difficulty
+
+  const constraints: QueryConstraint[] = []
+  if (group) constraints.push(where('difficulty', '==', group))
+  if (tag) constraints.push(where('tags', 'array-contains', tag))
+  constraints.push(orderBy('title', sort === '-title' ? 'desc' : 'asc'))
+  if (cursor?.after) constraints.push(startAfter(cursor.after))
+  constraints.push(limit(PROBLEMS_PAGE_SIZE))
+
+  const snapshot = await getDocs(query(collection(db, 'problems'), ...constraints))
+  const nextGroup = byDifficulty && group ? groups[groups.indexOf(group) + 1] : undefined
+  return {
+    // Drafts are dropped here rather than in the query so problems without a status still show up
+    problems: snapshot.docs
+      .map(problemDoc => ({ id: problemDoc.id, ...problemDoc.data() }) as ProblemSummary)
+      .filter(problem => problem.status !== 'draft'),
+    cursor: snapshot.docs.length === PROBLEMS_PAGE_SIZE
+      ? { after: snapshot.docs[snapshot.docs.length - 1], difficulty: byDifficulty ? group : undefined }
+      : nextGroup ? { after: null, difficulty: nextGroup } : null,
+  }
+}
+
+// Every tag used by a problem, kept in meta/problemTags as problems are saved.
+// Tags of deleted problems stay listed and just match nothing.
+export const getProblemTags = async (): Promise<string[]> => {
+  const tagsDoc = await getDoc(doc(db, 'meta', 'problemTags'))
+  return tagsDoc.data()?.tags ?? []
+}
+
+export const getProblem = async (id: string): Promise<Problem | null> => {
+  const problemDoc = await getDoc(doc(db, 'problems', id))
+  return problemDoc.exists() ? ({ id: problemDoc.id, ...problemDoc.data() } as Problem) : null
+}
+
+// Firestore caps 'in' queries at 30 values
+const IN_QUERY_LIMIT = 30
+
+// Difficulty of each problem, keyed by id; ids that no longer exist are left out
+export const getProblemDifficulties = async (ids: string[]): Promise<Record<string, string>> => {
+  const difficulties: Record<string, string> = {}
+  const uniqueIds = Array.from(new Set(ids))
+  for (let i = 0; i < uniqueIds.length; i += IN_QUERY_LIMIT) {
+    const chunk = uniqueIds.slice(i, i + IN_QUERY_LIMIT)
+    const snapshot = await getDocs(query(collection(db, 'problems'), where(documentId(), 'in', chunk)))
+    snapshot.docs.forEach(problemDoc => {
+      difficulties[problemDoc.id] = problemDoc.data().difficulty
+    })
+  }
+  return difficulties
+}
+
+export const getStarterCode = (problem: Problem, language: string): string =>
+  problem.starterCode?.[language] ?? (language === 'javascript' ? problem.initialCode ?? '' : '')
+
+export const isPublished = (problem: ProblemSummary): boolean => problem.status !== 'draft'
+
+// Every problem including drafts, for the admin console
+export const listAllProblems = async (): Promise<ProblemSummary[]> => {
+  const snapshot = await getDocs(query(collection(db, 'problems'), orderBy('title')))
+  return snapshot.docs.map(problemDoc => ({ id: problemDoc.id, ...problemDoc.data() }) as ProblemSummary)
+}
+
+// Firestore rejects undefined field values
+const withoutUndefined = <T extends object>(data: T): T =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as T
+
+// Creates the problem when it has no id yet; returns the id
+export const saveProblem = async ({ id, ...problem }: Omit<Problem, 'id'> & { id?: string }): Promise<string> => {
+  const data = withoutUndefined(problem)
+  if (problem.tags?.length) {
+    await setDoc(doc(db, 'meta', 'problemTags'), { tags: arrayUnion(...problem.tags) }, { merge: true })
+  }
+  if (id) {
+    // Drops the test cases problems kept here before they moved to problemTestCases
+    await setDoc(doc(db, 'problems', id), { ...data, testCases: deleteField(), updatedAt: serverTimestamp() }, { merge: true })
+    return id
+  }
+  const problemRef = await addDoc(collection(db, 'problems'), {
+    ...data,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  })
+  return problemRef.id
+}
+
+export const deleteProblem = async (id: string) => {
+  await deleteDoc(doc(db, 'problems', id))
+  await deleteDoc(doc(db, 'problemSolutions', id))
+  await deleteDoc(doc(db, 'problemTestCases', id))
+}
+
+export const getReferenceSolution = async (problemId: string): Promise<ReferenceSolution | null> => {
+  const solutionDoc = await getDoc(doc(db, 'problemSolutions', problemId))
+  return solutionDoc.exists() ? (solutionDoc.data() as ReferenceSolution) : null
+}
+
+export const saveReferenceSolution = async (problemId: string, solution: ReferenceSolution) => {
+  await setDoc(doc(db, 'problemSolutions', problemId), solution)
+}
+
+// Hidden test cases, judged on the API server. Problems saved before
+// problemTestCases existed still have them on the problem document.
+export const getTestCases = async (problemId: string): Promise<TestCase[]> => {
+  const testCasesDoc = await getDoc(doc(db, 'problemTestCases', problemId))
+  if (testCasesDoc.exists()) return testCasesDoc.data().testCases ?? []
+  const problemDoc = await getDoc(doc(db, 'problems', problemId))
+  return problemDoc.data()?.testCases ?? []
+}
+
+export const saveTestCases = async (problemId: string, testCases: TestCase[]) => {
+  await setDoc(doc(db, 'problemTestCases', problemId), { testCases })
+}
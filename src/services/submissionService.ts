@@ -0,0 +1,99 @@
+import { db } from '../config/firebase'
+import { collection, DocumentData, getDocs, query, Timestamp, where } from 'firebase/firestore'
+import { apiFetch } from './apiClient'
+import { JudgeResult, TestResult, Verdict } from './judgeService'
+
+export interface Submission {
+  id: string
+  userId: string
+  problemId: string
+  language: string
+  code: string
+  verdict: Verdict | null
+  results: TestResult[]
+  passed: number
+  total: number
+  // AI help on the problem up to this submission
+  tutorMode: boolean
+  hintsUsed: number
+  aiRequests: number
+  createdAt: Date
+}
+
+export interface SubmitResult {
+  id: string
+  // Null when the problem has no test cases to judge against
+  result: JudgeResult | null
+}
+
+// The API server judges the code against the hidden test cases and saves the
+// submission; clients can't write submissions themselves
+export const submitSolution = async (problemId: string, code: string, language: string): Promise<SubmitResult> => {
+  const response = await apiFetch('/submissions', {
+    method: 'POST',
+    body: JSON.stringify({ problemId, code, language }),
+  })
+  return response.json()
+}
+
+const VERDICTS: Verdict[] = ['Accepted', 'Wrong Answer', 'Time Limit Exceeded', 'Runtime Error', 'Compilation Error']
+
+const isVerdict = (value: unknown): value is Verdict => VERDICTS.includes(value as Verdict)
+
+const isTestResult = (value: unknown): value is TestResult =>
+  typeof value === 'object' && value !== null && isVerdict((value as TestResult).verdict)
+
+const countOrZero = (value: unknown) => typeof value === 'number' && value >= 0 ? value : 0
+
+const fromFirestore = (id: string, data: DocumentData): Submission => ({
+  id,
+  userId: String(data.userId),
+  problemId: String(data.problemId),
+  // Early submissions stored the whole sanitizer result instead of the code string
+  code: typeof data.code === 'string' ? data.code
+    : typeof data.code?.sanitizedCode === 'string' ? data.code.sanitizedCode : '',
+  language: typeof data.language === 'string' ? data.language : 'javascript',
+  verdict: isVerdict(data.verdict) ? data.verdict : null,
+  results: Array.isArray(data.results) ? data.results.filter(isTestResult) : [],
+  passed: countOrZero(data.passed),
+  total: countOrZero(data.total),
+  tutorMode: data.tutorMode === true,
+  hintsUsed: countOrZero(data.hintsUsed),
+  aiRequests: countOrZero(data.aiRequests),
+  // Null while the server timestamp of a just-written submission is pending
+  createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+})
+
+// Newest first. Sorted here rather than with orderBy to avoid needing a composite index.
+export const getUserSubmissionsForProblem = async (userId: string, problemId: string): Promise<Submission[]> => {
+  const submissionsQuery = query(
+    collection(db, 'submissions'),
+    where('userId', '==', userId),
+    where('problemId', '==', problemId)
+  )
+  const snapshot = await getDocs(submissionsQuery)
+  return snapshot.docs
+    .map(submissionDoc => fromFirestore(submissionDoc.id, submissionDoc.data()))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+export type ProblemStatus = 'solved' | 'attempted'
+
+// Every submission by the user across all problems, newest first
+export const getUserSubmissions = async (userId: string): Promise<Submission[]> => {
+  const snapshot = await getDocs(query(collection(db, 'submissions'), where('userId', '==', userId)))
+  return snapshot.docs
+    .map(submissionDoc => fromFirestore(submissionDoc.id, submissionDoc.data()))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+// Solved if any submission was accepted, attempted otherwise
+export const getUserProblemStatuses = async (userId: string): Promise<Record<string, ProblemStatus>> => {
+  const statuses: Record<string, ProblemStatus> = {}
+  for (const { problemId, verdict } of await getUserSubmissions(userId)) {
+    if (!problemId) continue
+    if (verdict === 'Accepted') statuses[problemId] = 'solved'
+    else if (!statuses[problemId]) statuses[problemId] = 'attempted'
+  }
+  return statuses
+}
@@ -0,0 +1,62 @@
+import { db } from '../config/firebase'
+import { doc, getDoc } from 'firebase/firestore'
+import { Problem } from './problemService'
+import { UserData } from './userService'
+
+export interface HintLevel {
+  label: string
+  // Button text for climbing to this level
+  action: string
+  prompt: string
+}
+
+// Climbed one rung at a time, from the gentlest push to pseudocode
+export const HINT_LADDER: HintLevel[] = [
+  {
+    label: 'Nudge',
+    action: 'Get a nudge',
+    prompt: 'Give me a nudge: one or two sentences or a guiding question that points me in the right direction, ' +
+      'without naming the algorithm.',
+  },
+  {
+    label: 'Approach',
+    action: 'Show the approach',
+    prompt: 'Describe the approach: the key insight, which algorithm or data structure fits and why, ' +
+      'and its complexity, in prose only.',
+  },
+  {
+    label: 'Pseudocode',
+    action: 'Show pseudocode',
+    prompt: 'Give language-neutral pseudocode for the approach, leaving the actual implementation to me.',
+  },
+]
+
+// The API server applies its own copy for the proxy provider, so this one
+// only steers providers that talk to the model directly
+export const TUTOR_SYSTEM_PROMPT = 'You are a Socratic programming tutor on a practice platform. ' +
+  'Never write a complete or near-complete solution, never write whole functions, and never fix the code for the student. ' +
+  'Guide with questions, point at the part of their code or reasoning to look at, and explain concepts. ' +
+  'Code snippets of at most three lines are allowed only to illustrate syntax unrelated to solving the problem. ' +
+  'If the student asks for the solution, explain that tutor mode is on and offer the next hint instead.'
+
+// On for the problem, or for every problem when a mentor has enabled it for the student
+export const isTutorMode = (problem: Problem | null, userData: UserData | null) =>
+  !!problem?.tutorMode || !!userData?.tutorMode
+
+// How much AI help a user has had on a problem. Only the API server writes
+// it, as requests go through /ai/chat, and copies it onto submissions.
+export interface AIHelp {
+  // Rungs of the hint ladder climbed, 0 to HINT_LADDER.length
+  hintsUsed: number
+  // Chat requests of any kind, including hints
+  aiRequests: number
+}
+
+// Ids are "<uid>_<problemId>", like drafts
+const aiHelpRef = (userId: string, problemId: string) => doc(db, 'aiHelp', `${userId}_${problemId}`)
+
+export const getAIHelp = async (userId: string, problemId: string): Promise<AIHelp> => {
+  const snapshot = await getDoc(aiHelpRef(userId, problemId))
+  const data = snapshot.data()
+  return { hintsUsed: data?.hintsUsed ?? 0, aiRequests: data?.aiRequests ?? 0 }
+}
@@ -2,22 +2,65 @@ import { db } from '../config/firebase'
 import { doc, setDoc, getDoc, updateDoc } from 'firebase/firestore'
 import { User } from 'firebase/auth'
 
+export type Role = 'student' | 'mentor' | 'admin'
+
+export type EditorTheme = 'vs' | 'vs-dark' | 'hc-black' | 'hc-light'
+export type KeybindingMode = 'default' | 'vim' | 'emacs'
+
+export interface EditorSettings {
+  fontSize: number
+  tabSize: number
+  wordWrap: boolean
+  minimap: boolean
+  theme: EditorTheme
+  keybindings: KeybindingMode
+  // AI ghost-text suggestions while typing
+  inlineCompletions: boolean
+}
+
+export const DEFAULT_EDITOR_SETTINGS: EditorSettings = {
+  fontSize: 14,
+  tabSize: 2,
+  wordWrap: true,
+  minimap: false,
+  theme: 'vs-dark',
+  keybindings: 'default',
+  inlineCompletions: false
+}
+
+export interface UserPreferences {
+  theme?: string
+  editorSettings?: Partial<EditorSettings>
+}
+
 export interface UserData {
   uid: string
   email: string
+  // Missing on accounts created before roles existed; treated as 'student'
+  role?: Role
   displayName?: string
   photoURL?: string
   createdAt: Date
   lastLogin: Date
-  preferences?: {
-    theme?: string
-    editorSettings?: {
-      fontSize?: number
-      tabSize?: number
-    }
-  }
+  preferences?: UserPreferences
+  // Set by mentors and admins: tutor mode on every problem for this student
+  tutorMode?: boolean
 }
 
+export const getRole = (userData: UserData | null): Role => userData?.role ?? 'student'
+
+export const hasRole = (role: Role, required: Role | Role[]): boolean =>
+  (Array.isArray(required) ? required : [required]).includes(role)
+
+// Stored settings are sparse; anything unset falls back to the defaults
+export const getEditorSettings = (userData: UserData | null): EditorSettings => ({
+  ...DEFAULT_EDITOR_SETTINGS,
+  ...userData?.preferences?.editorSettings
+})
+
+// Mentors and admins can read other users' submissions and preview draft problems
+export const STAFF_ROLES: Role[] = ['mentor', 'admin']
+
 export const createUserDocument = async (user: User) => {
   const userRef = doc(db, 'users', user.uid)
   const userSnap = await getDoc(userRef)
@@ -26,8 +69,10 @@ export const createUserDocument = async (user: User) => {
     const userData: UserData = {
       uid: user.uid,
       email: user.email!,
-      displayName: user.displayName || undefined,
-      photoURL: user.photoURL || undefined,
+      // Firestore rejects undefined fields, and email signups have neither
+      ...(user.displayName ? { displayName: user.displayName } : {}),
+      ...(user.photoURL ? { photoURL: user.photoURL } : {}),
+      role: 'student',
       createdAt: new Date(),
       lastLogin: new Date(),
       preferences: {
@@ -52,6 +97,10 @@ export const createUserDocument = async (user: User) => {
   }
 }
 
+export const setUserTutorMode = async (uid: string, tutorMode: boolean) => {
+  await updateDoc(doc(db, 'users', uid), { tutorMode })
+}
+
 export const getUserData = async (uid: string): Promise<UserData | null> => {
   const userRef = doc(db, 'users', uid)
   const userSnap = await getDoc(userRef)
@@ -62,15 +111,17 @@ export const getUserData = async (uid: string): Promise<UserData | null> => {
   return null
 }
 
-export const updateUserPreferences = async (uid: string, preferences: Partial<UserData['preferences']>) => {
-  const userRef = doc(db, 'users', uid)
-  try {
-    await updateDoc(userRef, {
-      preferences: {
-        ...preferences
-      }
-    })
-  } catch (error) {
-    console.error('Error updating user preferences:', error)
-  }
+const definedEntries = <T extends object>(data: T): Partial<T> =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>
+
+// Merges only the given keys, so updating one editor setting leaves the rest
+// of the stored preferences untouched. Also creates the user document when
+// signup failed to, rather than failing every save.
+export const updateUserPreferences = async (uid: string, preferences: UserPreferences) => {
+  const { editorSettings, ...rest } = preferences
+  const updates: UserPreferences = definedEntries(rest)
+  const settings = definedEntries(editorSettings ?? {})
+  if (Object.keys(settings).length > 0) updates.editorSettings = settings
+  if (Object.keys(updates).length === 0) return
+  await setDoc(doc(db, 'users', uid), { preferences: updates }, { merge: true })
 } 
\ No newline at end of file
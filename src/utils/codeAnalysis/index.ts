@@ -0,0 +1,16 @@
+import { analyzeJavaScript } from './javascriptRules'
+import { analyzeText } from './textRules'
+import { Finding } from './types'
+
+export type { Finding, FindingSeverity } from './types'
+
+// JavaScript and TypeScript are parsed; other languages are scanned with comments and strings masked out
+export const analyzeCode = (code: string, language: string): Finding[] => {
+  const findings = language === 'javascript' || language === 'typescript'
+    ? analyzeJavaScript(code, language)
+    : analyzeText(code, language)
+  return findings.sort((a, b) => a.line - b.line || a.column - b.column)
+}
+
+export const hasBlockingFindings = (findings: Finding[]): boolean =>
+  findings.some(finding => finding.severity === 'error')
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeJavaScript } from './javascriptRules'
+
+const ruleIds = (code: string, language = 'javascript') =>
+  analyzeJavaScript(code, language).map(finding => finding.ruleId)
+
+describe('analyzeJavaScript', () => {
+  it('allows ordinary solutions that read stdin', () => {
+    expect(ruleIds(`
+      const lines = require('fs').readFileSync(0, 'utf8').trim().split('\\n')
+      const rl = require('readline').createInterface({ input: process.stdin })
+      process.stdout.write(String(lines.length))
+      class Solver { solve(key) { return this[key] } }
+    `)).toEqual([])
+  })
+
+  it('flags banned globals and the global object', () => {
+    expect(ruleIds('eval("1")')).toEqual(['no-eval'])
+    expect(ruleIds('fetch("/")')).toEqual(['no-network'])
+    expect(ruleIds('globalThis.x')).toEqual(['no-global-object'])
+    expect(ruleIds('process.exit(1)')).toEqual(['no-process'])
+  })
+
+  it('only allows requiring fs and readline', () => {
+    expect(ruleIds('require("child_process")')).toEqual(['no-require'])
+    expect(ruleIds('require(name)')).toEqual(['no-require'])
+  })
+
+  it('flags strings passed to timers', () => {
+    expect(ruleIds('setTimeout("alert(1)", 0)')).toEqual(['no-implied-eval'])
+    expect(ruleIds('setTimeout(() => {}, 0)')).toEqual([])
+  })
+
+  describe('shadowing', () => {
+    it('ignores locals that shadow a global', () => {
+      expect(ruleIds('const document = 1; document')).toEqual([])
+      expect(ruleIds('function f(self) { return self.x }')).toEqual([])
+      expect(ruleIds('try {} catch (self) { self }')).toEqual([])
+    })
+
+    it('still flags the global outside the scope of the local', () => {
+      expect(ruleIds("function f(self) {}; self['ev' + 'al']('1')")).toEqual(['no-global-object'])
+      expect(ruleIds('{ let document = 1 } document')).toEqual(['no-dom'])
+      expect(ruleIds('function g() { var fetch = 1 } fetch()')).toEqual(['no-network'])
+      expect(ruleIds('const h = function window() {}; window')).toEqual(['no-global-object'])
+    })
+  })
+
+  describe('reaching Function through .constructor', () => {
+    it.each([
+      "''.constructor.constructor('return this')()",
+      "new (''.constructor.constructor)('return this')",
+      "(0, x.constructor)('a')",
+      "x.constructor.call(null, 'a')",
+      "const F = ''.constructor.constructor; F('return fetch')()",
+      "const F = (() => {}).constructor; F('x')()",
+    ])('flags %s', code => {
+      expect(ruleIds(code)).toContain('no-function-constructor')
+    })
+
+    it('reports a chain once', () => {
+      expect(ruleIds("x.constructor.constructor('a')")).toEqual(['no-function-constructor'])
+    })
+
+    it('allows reading a constructor', () => {
+      expect(ruleIds('a.constructor === Array; a.constructor.name')).toEqual([])
+    })
+  })
+
+  it('flags dynamic access through this and constructor', () => {
+    expect(ruleIds("this['ev' + 'al']('1')")).toEqual(['no-global-object'])
+    expect(ruleIds('function f(k) { return this[k] }')).toEqual(['no-global-object'])
+    expect(ruleIds('x.constructor[k]')).toEqual(['no-global-object'])
+    expect(ruleIds('this.eval("1")')).toEqual(['no-eval'])
+    expect(ruleIds("this['x']; this.y")).toEqual([])
+  })
+
+  it('does not treat Object.prototype names as banned globals', () => {
+    expect(ruleIds('toString(); this.toString(); constructor')).toEqual([])
+  })
+
+  it('skips TypeScript types', () => {
+    expect(ruleIds('let el: Worker | null = null', 'typescript')).toEqual([])
+  })
+
+  it('reports a position for every finding', () => {
+    expect(analyzeJavaScript('\n  eval("1")', 'javascript')[0]).toMatchObject({ line: 2, column: 3, endLine: 2, endColumn: 7 })
+  })
+})
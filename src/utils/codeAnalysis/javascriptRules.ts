@@ -0,0 +1,348 @@
+import { parse } from '@babel/parser'
+import type { Node } from '@babel/types'
+import { Finding, FindingSeverity } from './types'
+
+// Identifiers that resolve to the global object, through which anything else can be reached
+const GLOBAL_OBJECTS = ['globalThis', 'window', 'self', 'global', 'frames', 'top', 'parent']
+
+const BANNED_GLOBALS: Record<string, { ruleId: string, message: string }> = {
+  eval: { ruleId: 'no-eval', message: 'eval() is not allowed' },
+  Function: { ruleId: 'no-function-constructor', message: 'The Function constructor is not allowed' },
+  fetch: { ruleId: 'no-network', message: 'Network access is not allowed' },
+  XMLHttpRequest: { ruleId: 'no-network', message: 'Network access is not allowed' },
+  WebSocket: { ruleId: 'no-network', message: 'Network access is not allowed' },
+  EventSource: { ruleId: 'no-network', message: 'Network access is not allowed' },
+  importScripts: { ruleId: 'no-network', message: 'Loading scripts is not allowed' },
+  Worker: { ruleId: 'no-worker', message: 'Creating workers is not allowed' },
+  SharedWorker: { ruleId: 'no-worker', message: 'Creating workers is not allowed' },
+  document: { ruleId: 'no-dom', message: 'DOM access is not allowed' },
+  localStorage: { ruleId: 'no-storage', message: 'Storage access is not allowed' },
+  sessionStorage: { ruleId: 'no-storage', message: 'Storage access is not allowed' },
+  indexedDB: { ruleId: 'no-storage', message: 'Storage access is not allowed' },
+}
+
+// Own keys only, so `toString` or `constructor` don't match Object.prototype
+const isBannedGlobal = (name: string) => Object.prototype.hasOwnProperty.call(BANNED_GLOBALS, name)
+
+// Modules a Judge0 solution needs to read stdin
+const ALLOWED_MODULES = ['fs', 'readline']
+const ALLOWED_PROCESS_MEMBERS = ['stdin', 'stdout', 'stderr']
+
+const TIMER_FUNCTIONS = ['setTimeout', 'setInterval']
+
+type Parent = { node: Node, key: string }
+
+const isTypeOnly = (node: Node) =>
+  node.type === 'TSTypeAnnotation' ||
+  node.type === 'TSInterfaceDeclaration' ||
+  node.type === 'TSTypeAliasDeclaration' ||
+  node.type === 'TSTypeParameterDeclaration' ||
+  node.type === 'TSTypeParameterInstantiation'
+
+// True when the identifier names a property, label or binding rather than reading a variable
+const isNonReference = (parent: Parent | undefined) => {
+  if (!parent) return false
+  const { node, key } = parent
+  switch (node.type) {
+    case 'MemberExpression':
+    case 'OptionalMemberExpression':
+      return key === 'property' && !node.computed
+    case 'ObjectProperty':
+    case 'ObjectMethod':
+    case 'ClassProperty':
+    case 'ClassMethod':
+      return key === 'key' && !node.computed
+    case 'LabeledStatement':
+    case 'BreakStatement':
+    case 'ContinueStatement':
+      return key === 'label'
+    case 'ImportSpecifier':
+    case 'ExportSpecifier':
+      return true
+    default:
+      return false
+  }
+}
+
+const staticKey = (node: Node): string | null => {
+  if (node.type === 'StringLiteral') return node.value
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 0) return node.quasis[0].value.cooked ?? null
+  return null
+}
+
+const children = (node: Node): [string, Node][] => {
+  const result: [string, Node][] = []
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments' || key === 'innerComments') continue
+    if (Array.isArray(value)) {
+      value.forEach(item => item && typeof item.type === 'string' && result.push([key, item]))
+    } else if (value && typeof value === 'object' && typeof value.type === 'string') {
+      result.push([key, value])
+    }
+  }
+  return result
+}
+
+const isPosition = (value: unknown): value is { line: number, column: number } =>
+  typeof value === 'object' && value !== null
+  && typeof (value as { line?: unknown }).line === 'number'
+  && typeof (value as { column?: unknown }).column === 'number'
+
+const memberKey = (node: Node): string | null => {
+  if (node.type !== 'MemberExpression' && node.type !== 'OptionalMemberExpression') return null
+  return node.computed ? staticKey(node.property) : node.property.type === 'Identifier' ? node.property.name : null
+}
+
+// What a call ends up invoking: `(0, f)()` calls f, and so do f.call(),
+// f.apply() and the function f.bind() returns
+const calledFunction = (callee: Node): Node => {
+  switch (callee.type) {
+    case 'SequenceExpression':
+      return calledFunction(callee.expressions[callee.expressions.length - 1])
+    case 'ParenthesizedExpression':
+    case 'TSAsExpression':
+    case 'TSSatisfiesExpression':
+    case 'TSNonNullExpression':
+    case 'TSTypeAssertion':
+      return calledFunction(callee.expression)
+    case 'MemberExpression':
+    case 'OptionalMemberExpression':
+      return ['call', 'apply', 'bind'].includes(memberKey(callee) ?? '') ? calledFunction(callee.object) : callee
+    default:
+      return callee
+  }
+}
+
+// `''.constructor.constructor` and `(() => {}).constructor` are Function
+// itself, whether it is called right away or saved to a variable first
+const reachesFunctionConstructor = (node: Node) => {
+  if (memberKey(node) !== 'constructor' || !('object' in node)) return false
+  const { object } = node
+  return memberKey(object) === 'constructor' ||
+    object.type === 'FunctionExpression' ||
+    object.type === 'ArrowFunctionExpression' ||
+    object.type === 'ClassExpression'
+}
+
+const isFunction = (node: Node) =>
+  node.type === 'FunctionDeclaration' ||
+  node.type === 'FunctionExpression' ||
+  node.type === 'ArrowFunctionExpression' ||
+  node.type === 'ObjectMethod' ||
+  node.type === 'ClassMethod' ||
+  node.type === 'ClassPrivateMethod'
+
+const isBlockScope = (node: Node) =>
+  node.type === 'BlockStatement' ||
+  node.type === 'StaticBlock' ||
+  node.type === 'ForStatement' ||
+  node.type === 'ForInStatement' ||
+  node.type === 'ForOfStatement' ||
+  node.type === 'SwitchStatement' ||
+  node.type === 'CatchClause' ||
+  node.type === 'ClassExpression'
+
+// Names declared in each scope, keyed by the node that opens it. A local
+// `document` or `self` only shadows the global inside the scope declaring it.
+const collectScopes = (root: Node): Map<Node, Set<string>> => {
+  const scopes = new Map<Node, Set<string>>()
+  const addPattern = (names: Set<string>, pattern: Node | null | undefined) => {
+    if (!pattern) return
+    switch (pattern.type) {
+      case 'Identifier':
+        names.add(pattern.name)
+        break
+      case 'ObjectPattern':
+        pattern.properties.forEach(prop => addPattern(names, prop.type === 'RestElement' ? prop : prop.value as Node))
+        break
+      case 'ArrayPattern':
+        pattern.elements.forEach(element => addPattern(names, element))
+        break
+      case 'RestElement':
+        addPattern(names, pattern.argument)
+        break
+      case 'AssignmentPattern':
+        addPattern(names, pattern.left)
+        break
+      case 'TSParameterProperty':
+        addPattern(names, pattern.parameter)
+        break
+    }
+  }
+  // `var` belongs to the enclosing function, everything else to the enclosing block
+  const visit = (node: Node, functionScope: Set<string>, blockScope: Set<string>) => {
+    if (node.type === 'Program' || isFunction(node) || isBlockScope(node)) {
+      const names = new Set<string>()
+      scopes.set(node, names)
+      if (node.type === 'Program' || isFunction(node)) functionScope = names
+      // A function declaration's name is visible around it, an expression's only inside
+      if (node.type === 'FunctionDeclaration' && node.id) addPattern(blockScope, node.id)
+      blockScope = names
+    }
+    switch (node.type) {
+      case 'VariableDeclaration':
+        node.declarations.forEach(declarator => addPattern(node.kind === 'var' ? functionScope : blockScope, declarator.id))
+        break
+      case 'FunctionExpression':
+      case 'ClassExpression':
+        if (node.id) addPattern(blockScope, node.id)
+        break
+      case 'ClassDeclaration':
+        if (node.id) addPattern(blockScope, node.id)
+        break
+      case 'CatchClause':
+        addPattern(blockScope, node.param)
+        break
+      case 'ImportSpecifier':
+      case 'ImportDefaultSpecifier':
+      case 'ImportNamespaceSpecifier':
+        addPattern(blockScope, node.local)
+        break
+    }
+    if (isFunction(node) && 'params' in node) {
+      node.params.forEach(param => addPattern(blockScope, param))
+    }
+    children(node).forEach(([, child]) => visit(child, functionScope, blockScope))
+  }
+  const top = new Set<string>()
+  visit(root, top, top)
+  return scopes
+}
+
+export const analyzeJavaScript = (code: string, language: string): Finding[] => {
+  const findings: Finding[] = []
+  const report = (node: Node, ruleId: string, message: string, severity: FindingSeverity = 'error') => {
+    if (!node.loc) return
+    findings.push({
+      ruleId,
+      message,
+      severity,
+      line: node.loc.start.line,
+      column: node.loc.start.column + 1,
+      endLine: node.loc.end.line,
+      endColumn: node.loc.end.column + 1,
+    })
+  }
+
+  let ast: Node
+  try {
+    ast = parse(code, {
+      sourceType: 'unambiguous',
+      errorRecovery: true,
+      plugins: language === 'typescript' ? ['typescript', 'jsx'] : ['jsx'],
+    })
+  } catch (error: unknown) {
+    // Syntax errors are already underlined by Monaco and fail to run anyway.
+    // Babel's errors carry the position as `loc`.
+    const loc = error instanceof Error && 'loc' in error && isPosition(error.loc) ? error.loc : { line: 1, column: 0 }
+    findings.push({
+      ruleId: 'parse-error',
+      message: `Code could not be analyzed: ${error instanceof Error && error.message ? error.message : 'syntax error'}`,
+      severity: 'warning',
+      line: loc.line,
+      column: loc.column + 1,
+      endLine: loc.line,
+      endColumn: loc.column + 2,
+    })
+    return findings
+  }
+
+  const scopes = collectScopes(ast)
+  // Scopes enclosing the node being visited, innermost last
+  const scopeChain: Set<string>[] = []
+  const isDeclared = (name: string) => scopeChain.some(names => names.has(name))
+  const isGlobal = (node: Node, name?: string) =>
+    node.type === 'Identifier' && (!name || node.name === name) && !isDeclared(node.name)
+
+  let classDepth = 0
+
+  const visit = (node: Node, parent?: Parent) => {
+    if (isTypeOnly(node)) return
+    const scope = scopes.get(node)
+    if (scope) scopeChain.push(scope)
+    // Class code is strict, so `this` inside it is never the global object
+    if (node.type === 'ClassBody') classDepth++
+
+    switch (node.type) {
+      case 'Identifier': {
+        if (isNonReference(parent) || isDeclared(node.name)) break
+        if (GLOBAL_OBJECTS.includes(node.name)) {
+          const computed = parent?.node.type === 'MemberExpression' && parent.key === 'object' && parent.node.computed
+            && !staticKey(parent.node.property)
+          report(
+            node,
+            'no-global-object',
+            computed
+              ? `Dynamic property access on '${node.name}' is not allowed`
+              : `Access to the global object '${node.name}' is not allowed`
+          )
+        } else if (isBannedGlobal(node.name)) {
+          const rule = BANNED_GLOBALS[node.name]
+          report(node, rule.ruleId, rule.message)
+        } else if (node.name === 'process') {
+          const member = parent?.node.type === 'MemberExpression' && parent.key === 'object' ? parent.node : null
+          const property = member && memberKey(member)
+          if (!property || !ALLOWED_PROCESS_MEMBERS.includes(property)) {
+            report(node, 'no-process', 'Only process.stdin, process.stdout and process.stderr are allowed')
+          }
+        }
+        break
+      }
+      case 'MemberExpression':
+      case 'OptionalMemberExpression': {
+        const { object } = node
+        if (reachesFunctionConstructor(node)) {
+          report(node, 'no-function-constructor', 'Reaching the Function constructor through .constructor is not allowed')
+        } else if (node.computed && !staticKey(node.property) && (
+          (object.type === 'ThisExpression' && classDepth === 0) ||
+          (object.type === 'Identifier' && (object.name === 'Function' || object.name === 'constructor')) ||
+          memberKey(object) === 'constructor'
+        )) {
+          // Outside classes `this` can be the global object, and a computed key hides what is read
+          const name = object.type === 'ThisExpression' ? 'this' : object.type === 'Identifier' ? object.name : 'constructor'
+          report(node, 'no-global-object', `Dynamic property access on '${name}' is not allowed`)
+        } else if (object.type === 'ThisExpression' && classDepth === 0) {
+          // this.eval and the like when `this` is the global object
+          const key = memberKey(node)
+          if (key && isBannedGlobal(key)) report(node, BANNED_GLOBALS[key].ruleId, BANNED_GLOBALS[key].message)
+        }
+        break
+      }
+      case 'NewExpression':
+      case 'OptionalCallExpression':
+      case 'CallExpression': {
+        const { callee } = node
+        // Calling obj.constructor(...) is the usual way to reach Function without naming it
+        const called = calledFunction(callee)
+        if (memberKey(called) === 'constructor' && !reachesFunctionConstructor(called)) {
+          report(called, 'no-function-constructor', 'Calling a constructor property is not allowed')
+        }
+        if (node.type !== 'CallExpression') break
+        if (callee.type === 'Import') {
+          report(node, 'no-dynamic-import', 'Dynamic import() is not allowed')
+        } else if (isGlobal(callee, 'require')) {
+          const moduleName = node.arguments[0] ? staticKey(node.arguments[0]) : null
+          if (!moduleName || !ALLOWED_MODULES.includes(moduleName)) {
+            report(node, 'no-require', `Only ${ALLOWED_MODULES.map(name => `'${name}'`).join(' and ')} may be required`)
+          }
+        } else if (callee.type === 'Identifier' && TIMER_FUNCTIONS.includes(callee.name) && !isDeclared(callee.name)) {
+          const [handler] = node.arguments
+          if (handler && (handler.type === 'StringLiteral' || handler.type === 'TemplateLiteral')) {
+            report(handler, 'no-implied-eval', `Passing a string to ${callee.name}() evaluates it as code`)
+          }
+        }
+        break
+      }
+      case 'ImportDeclaration':
+        report(node, 'no-import', 'Import statements are not supported; write a self-contained solution')
+        break
+    }
+
+    children(node).forEach(([key, child]) => visit(child, { node, key }))
+    if (scope) scopeChain.pop()
+    if (node.type === 'ClassBody') classDepth--
+  }
+
+  visit(ast)
+  return findings
+}
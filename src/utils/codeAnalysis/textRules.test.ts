@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeText } from './textRules'
+
+const ruleIds = (code: string, language: string) => analyzeText(code, language).map(finding => finding.ruleId)
+
+describe('analyzeText', () => {
+  describe('python', () => {
+    it('allows whitelisted imports', () => {
+      expect(ruleIds('import sys, math\nfrom collections import deque', 'python')).toEqual([])
+    })
+
+    it('flags other imports and dynamic code', () => {
+      expect(ruleIds('import os', 'python')).toEqual(['no-disallowed-import'])
+      expect(ruleIds('import math, subprocess', 'python')).toEqual(['no-disallowed-import'])
+      expect(ruleIds('exec("1")', 'python')).toEqual(['no-eval'])
+      expect(ruleIds('open("x")', 'python')).toEqual(['no-file-access'])
+      expect(ruleIds('().__class__.__subclasses__()', 'python')).toEqual(['no-builtins-access'])
+    })
+
+    it('ignores comments and strings', () => {
+      expect(ruleIds('# import os\nprint("eval(1)")\n"""\nimport os\n"""', 'python')).toEqual([])
+    })
+  })
+
+  describe('java', () => {
+    it('allows java.util and flags other packages', () => {
+      expect(ruleIds('import java.util.*;', 'java')).toEqual([])
+      expect(ruleIds('import java.io.File;', 'java')).toEqual(['no-disallowed-import'])
+    })
+
+    it('flags processes and reflection', () => {
+      expect(ruleIds('Runtime.getRuntime().exec("ls");', 'java')).toEqual(['no-process'])
+      expect(ruleIds('Class.forName("X");', 'java')).toEqual(['no-reflection'])
+    })
+  })
+
+  describe('cpp', () => {
+    it('allows whitelisted headers and flags others', () => {
+      expect(ruleIds('#include <vector>\n#include <iostream>', 'cpp')).toEqual([])
+      expect(ruleIds('#include <fstream>', 'cpp')).toEqual(['no-disallowed-include'])
+      expect(ruleIds('#include "secret.h"', 'cpp')).toEqual(['no-disallowed-include'])
+    })
+
+    it('flags system calls and inline assembly', () => {
+      expect(ruleIds('system("ls");', 'cpp')).toEqual(['no-process'])
+      expect(ruleIds('asm("nop");', 'cpp')).toEqual(['no-inline-asm'])
+    })
+
+    it('ignores comments', () => {
+      expect(ruleIds('// system("ls")\n/* fork() */', 'cpp')).toEqual([])
+    })
+  })
+
+  it('reports positions in the original code', () => {
+    expect(analyzeText('int x;\n  system("ls");', 'cpp')[0]).toMatchObject({ line: 2, column: 3, endLine: 2, endColumn: 10 })
+  })
+
+  it('has no rules for unknown languages', () => {
+    expect(analyzeText('anything', 'ruby')).toEqual([])
+  })
+})
@@ -0,0 +1,168 @@
+import { Finding, FindingSeverity } from './types'
+
+interface TextRule {
+  ruleId: string
+  pattern: RegExp
+  message: (match: RegExpExecArray) => string | null
+  severity?: FindingSeverity
+}
+
+const ALLOWED_PYTHON_MODULES = [
+  'math', 'random', 'datetime', 'collections', 'sys', 'heapq', 'bisect',
+  'itertools', 'functools', 'string', 're', 'typing',
+]
+const ALLOWED_JAVA_PACKAGES = ['java.util', 'java.lang', 'java.math']
+const ALLOWED_CPP_HEADERS = [
+  'iostream', 'string', 'vector', 'algorithm', 'map', 'set', 'unordered_map', 'unordered_set',
+  'queue', 'stack', 'deque', 'utility', 'numeric', 'cmath', 'climits', 'sstream', 'iomanip',
+]
+
+const RULES: Record<string, TextRule[]> = {
+  python: [
+    {
+      ruleId: 'no-disallowed-import',
+      pattern: /^[ \t]*(?:from[ \t]+([\w.]+)[ \t]+import|import[ \t]+([\w.]+(?:[ \t]*,[ \t]*[\w.]+)*))/gm,
+      message: (match) => {
+        const modules = (match[1] || match[2]).split(',').map(name => name.trim().split('.')[0])
+        const blocked = modules.filter(name => !ALLOWED_PYTHON_MODULES.includes(name))
+        return blocked.length > 0 ? `Import of module '${blocked.join("', '")}' is not allowed` : null
+      },
+    },
+    {
+      ruleId: 'no-eval',
+      pattern: /\b(eval|exec|compile|__import__)\s*\(/g,
+      message: (match) => `${match[1]}() is not allowed`,
+    },
+    {
+      ruleId: 'no-file-access',
+      pattern: /\bopen\s*\(/g,
+      message: () => 'File access is not allowed; read input from stdin',
+    },
+    {
+      ruleId: 'no-builtins-access',
+      pattern: /\b__builtins__\b|\b__subclasses__\b|\b__globals__\b/g,
+      message: (match) => `Access to ${match[0]} is not allowed`,
+    },
+  ],
+  java: [
+    {
+      ruleId: 'no-disallowed-import',
+      pattern: /\bimport\s+(?:static\s+)?([\w.]+(?:\.\*)?)\s*;/g,
+      message: (match) => ALLOWED_JAVA_PACKAGES.some(allowed => match[1].startsWith(allowed))
+        ? null
+        : `Import of package '${match[1]}' is not allowed`,
+    },
+    {
+      ruleId: 'no-process',
+      pattern: /\bRuntime\s*\.\s*getRuntime\b|\bProcessBuilder\b|\bSystem\s*\.\s*exit\b/g,
+      message: (match) => `${match[0].replace(/\s+/g, '')} is not allowed`,
+    },
+    {
+      ruleId: 'no-reflection',
+      pattern: /\bClass\s*\.\s*forName\b|\bjava\s*\.\s*lang\s*\.\s*reflect\b/g,
+      message: () => 'Reflection is not allowed',
+    },
+    {
+      ruleId: 'no-disallowed-import',
+      pattern: /\bjava\s*\.\s*(?:net|nio\s*\.\s*file)\b/g,
+      message: (match) => `Use of '${match[0].replace(/\s+/g, '')}' is not allowed`,
+    },
+  ],
+  cpp: [
+    {
+      ruleId: 'no-disallowed-include',
+      pattern: /^[ \t]*#[ \t]*include[ \t]*[<"]([^>"]+)[>"]/gm,
+      message: (match) => ALLOWED_CPP_HEADERS.includes(match[1]) ? null : `Include of header '${match[1]}' is not allowed`,
+    },
+    {
+      ruleId: 'no-process',
+      pattern: /\b(system|popen|fork|execl|execlp|execv|execvp)\s*\(/g,
+      message: (match) => `${match[1]}() is not allowed`,
+    },
+    {
+      ruleId: 'no-inline-asm',
+      pattern: /\b(?:__asm__|asm)\b/g,
+      message: () => 'Inline assembly is not allowed',
+    },
+  ],
+}
+
+// Blanks out comments and string literals while keeping every offset and newline,
+// so rules only see code and positions still line up with the editor.
+const maskCommentsAndStrings = (code: string, language: string): string => {
+  const chars = code.split('')
+  const blank = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      if (chars[i] !== '\n') chars[i] = ' '
+    }
+  }
+  const lineComment = language === 'python' ? '#' : '//'
+  let i = 0
+  while (i < code.length) {
+    if (code.startsWith(lineComment, i)) {
+      const end = code.indexOf('\n', i)
+      const stop = end === -1 ? code.length : end
+      blank(i, stop)
+      i = stop
+    } else if (language !== 'python' && code.startsWith('/*', i)) {
+      const end = code.indexOf('*/', i + 2)
+      const stop = end === -1 ? code.length : end + 2
+      blank(i, stop)
+      i = stop
+    } else if (language === 'python' && (code.startsWith('"""', i) || code.startsWith("'''", i))) {
+      const quote = code.slice(i, i + 3)
+      const end = code.indexOf(quote, i + 3)
+      const stop = end === -1 ? code.length : end + 3
+      blank(i + 3, stop - 3)
+      i = stop
+    } else if (code[i] === '"' || code[i] === "'") {
+      const quote = code[i]
+      let j = i + 1
+      while (j < code.length && code[j] !== quote && code[j] !== '\n') {
+        j += code[j] === '\\' ? 2 : 1
+      }
+      // Keep the quotes so `#include "x"` style rules still see a delimited name
+      if (!(language === 'cpp' && /#[ \t]*include[ \t]*$/.test(code.slice(code.lastIndexOf('\n', i) + 1, i)))) {
+        blank(i + 1, Math.min(j, code.length))
+      }
+      i = j + 1
+    } else {
+      i++
+    }
+  }
+  return chars.join('')
+}
+
+const positionAt = (code: string, offset: number) => {
+  const before = code.slice(0, offset)
+  const line = before.split('\n').length
+  return { line, column: offset - before.lastIndexOf('\n') }
+}
+
+export const analyzeText = (code: string, language: string): Finding[] => {
+  const rules = RULES[language] || []
+  const masked = maskCommentsAndStrings(code, language)
+  const findings: Finding[] = []
+  for (const rule of rules) {
+    const pattern = new RegExp(rule.pattern.source, rule.pattern.flags)
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(masked)) !== null) {
+      const message = rule.message(match)
+      if (message) {
+        const start = positionAt(masked, match.index)
+        const end = positionAt(masked, match.index + match[0].length)
+        findings.push({
+          ruleId: rule.ruleId,
+          message,
+          severity: rule.severity || 'error',
+          line: start.line,
+          column: start.column,
+          endLine: end.line,
+          endColumn: end.column,
+        })
+      }
+      if (match[0].length === 0) pattern.lastIndex++
+    }
+  }
+  return findings
+}
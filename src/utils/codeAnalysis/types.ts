@@ -0,0 +1,12 @@
+export type FindingSeverity = 'error' | 'warning'
+
+// Positions are 1-based, matching Monaco markers
+export interface Finding {
+  ruleId: string
+  message: string
+  severity: FindingSeverity
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+}
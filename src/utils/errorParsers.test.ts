@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { parseErrors } from './errorParsers'
+
+describe('parseErrors', () => {
+  it('parses javac errors with the caret column', () => {
+    const output = [
+      "Main.java:5: error: ';' expected",
+      '        int x = 1',
+      '                 ^',
+      '1 error',
+    ].join('\n')
+    expect(parseErrors(output, 'java')).toEqual([
+      { line: 5, column: 18, message: "';' expected", severity: 'error' },
+    ])
+  })
+
+  it('parses gcc errors and warnings and skips notes', () => {
+    const output = [
+      "/box/main.cpp:5:10: error: expected ';' before '}' token",
+      "main.cpp:3: warning: unused variable 'y'",
+      "main.cpp:2:5: note: declared here",
+    ].join('\n')
+    expect(parseErrors(output, 'cpp')).toEqual([
+      { line: 5, column: 10, message: "expected ';' before '}' token", severity: 'error' },
+      { line: 3, column: null, message: "unused variable 'y'", severity: 'warning' },
+    ])
+  })
+
+  it('takes the innermost frame of a python traceback', () => {
+    const output = [
+      'Traceback (most recent call last):',
+      '  File "/box/script.py", line 7, in <module>',
+      '    main()',
+      '  File "/box/script.py", line 3, in main',
+      '    print(1 / 0)',
+      'ZeroDivisionError: division by zero',
+    ].join('\n')
+    expect(parseErrors(output, 'python')).toEqual([
+      { line: 3, column: null, message: 'ZeroDivisionError: division by zero', severity: 'error' },
+    ])
+  })
+
+  it('maps the caret of python syntax errors to a column', () => {
+    const output = [
+      '  File "/box/script.py", line 2',
+      '    if x = 1:',
+      '         ^',
+      'SyntaxError: invalid syntax',
+    ].join('\n')
+    expect(parseErrors(output, 'python')[0]).toMatchObject({ line: 2, column: 6 })
+  })
+
+  it('parses node stack traces and tsc diagnostics', () => {
+    const stack = [
+      'TypeError: x is not a function',
+      '    at main (/box/script.js:3:5)',
+    ].join('\n')
+    expect(parseErrors(stack, 'javascript')).toEqual([
+      { line: 3, column: 5, message: 'TypeError: x is not a function', severity: 'error' },
+    ])
+    expect(parseErrors("script.ts(4,7): error TS2304: Cannot find name 'y'.", 'typescript')).toEqual([
+      { line: 4, column: 7, message: "TS2304: Cannot find name 'y'.", severity: 'error' },
+    ])
+  })
+
+  it('returns nothing for unknown formats and languages', () => {
+    expect(parseErrors('Segmentation fault', 'cpp')).toEqual([])
+    expect(parseErrors('main.rb:1: error', 'ruby')).toEqual([])
+  })
+})
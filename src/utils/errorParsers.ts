@@ -0,0 +1,113 @@
+export interface ParsedError {
+  line: number
+  // 1-based; null when the tool only reports a line
+  column: number | null
+  message: string
+  severity: 'error' | 'warning'
+}
+
+type ErrorParser = (output: string) => ParsedError[]
+
+// javac: "Main.java:5: error: ';' expected", followed by the source line and a caret line
+const parseJavac: ErrorParser = (output) => {
+  const lines = output.split('\n')
+  const errors: ParsedError[] = []
+  lines.forEach((text, idx) => {
+    const match = /^(?:.*[\\/])?[\w$]+\.java:(\d+): (error|warning): (.*)$/.exec(text)
+    if (!match) return
+    const caret = lines.slice(idx + 1, idx + 4).find(next => /^\s*\^\s*$/.test(next))
+    errors.push({
+      line: Number(match[1]),
+      column: caret ? caret.indexOf('^') + 1 : null,
+      message: match[3],
+      severity: match[2] === 'warning' ? 'warning' : 'error',
+    })
+  })
+  return errors
+}
+
+// g++: "main.cpp:5:10: error: expected ';' before '}' token"; notes are skipped
+const parseGcc: ErrorParser = (output) => {
+  const errors: ParsedError[] = []
+  for (const text of output.split('\n')) {
+    const match = /^(?:.*[\\/])?[\w.-]+\.(?:cpp|cc|cxx|c|h|hpp):(\d+):(?:(\d+):)? (?:fatal )?(error|warning): (.*)$/.exec(text)
+    if (match) {
+      errors.push({
+        line: Number(match[1]),
+        column: match[2] ? Number(match[2]) : null,
+        message: match[4],
+        severity: match[3] === 'warning' ? 'warning' : 'error',
+      })
+    }
+  }
+  return errors
+}
+
+// Python tracebacks: the innermost 'File "...", line N' frame plus the final "XxxError: ..." line.
+// Syntax errors put a caret under the offending column.
+const parsePython: ErrorParser = (output) => {
+  const lines = output.split('\n').filter(text => text.trim() !== '')
+  let frameIdx = -1
+  lines.forEach((text, idx) => {
+    if (/^\s*File "[^"]*", line \d+/.test(text) && !/File "<frozen |File "\/usr\//.test(text)) {
+      frameIdx = idx
+    }
+  })
+  if (frameIdx === -1) return []
+  const line = Number(/line (\d+)/.exec(lines[frameIdx])![1])
+  const message = [...lines].reverse().find(text => /^\w+(?:Error|Exception|Interrupt|Exit)\b/.test(text))
+    || lines[lines.length - 1].trim()
+  const caret = lines.slice(frameIdx + 1, frameIdx + 4).find(next => /^\s*\^+\s*$/.test(next))
+  const source = lines[frameIdx + 1]
+  // Python strips the source line's indentation before printing it under the frame
+  const indent = source ? source.length - source.trimStart().length : 0
+  return [{
+    line,
+    column: caret && source ? caret.indexOf('^') - indent + 1 : null,
+    message,
+    severity: 'error',
+  }]
+}
+
+// Node stack traces ("at ... (/box/script.js:3:5)"), the in-browser runner's "at main.js:3:5",
+// and tsc diagnostics ("script.ts(3,5): error TS2304: ...")
+const parseJavaScript: ErrorParser = (output) => {
+  const tscErrors: ParsedError[] = []
+  for (const text of output.split('\n')) {
+    const match = /^(?:.*[\\/])?[\w.-]+\.ts\((\d+),(\d+)\): (error|warning) (TS\d+: .*)$/.exec(text)
+    if (match) {
+      tscErrors.push({
+        line: Number(match[1]),
+        column: Number(match[2]),
+        message: match[4],
+        severity: match[3] === 'warning' ? 'warning' : 'error',
+      })
+    }
+  }
+  if (tscErrors.length > 0) return tscErrors
+
+  const frame = /at (?:.*\()?(?:.*[\\/])?(?:script|main)\.(?:js|ts):(\d+):(\d+)\)?/.exec(output)
+  // Node prints "/box/script.js:3" above the source line for uncaught errors
+  const header = /^(?:.*[\\/])?(?:script|main)\.(?:js|ts):(\d+)\s*$/m.exec(output)
+  if (!frame && !header) return []
+  const message = /^\s*(?:Uncaught )?\w*(?:Error|Exception)\b.*$/m.exec(output)
+  return [{
+    line: Number(frame ? frame[1] : header![1]),
+    column: frame ? Number(frame[2]) : null,
+    message: message ? message[0].trim() : output.split('\n')[0],
+    severity: 'error',
+  }]
+}
+
+const PARSERS: Record<string, ErrorParser> = {
+  java: parseJavac,
+  cpp: parseGcc,
+  python: parsePython,
+  javascript: parseJavaScript,
+  typescript: parseJavaScript,
+}
+
+export const parseErrors = (output: string, language: string): ParsedError[] => {
+  const parser = PARSERS[language]
+  return parser ? parser(output) : []
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { diffLines } from './lineDiff'
+
+describe('diffLines', () => {
+  it('marks lines as same, removed or added', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' },
+    ])
+  })
+
+  it('keeps the longest common subsequence', () => {
+    const lines = diffLines('1\n2\n3\n4', '2\n4\n1')
+    expect(lines.filter(line => line.type === 'same').map(line => line.text)).toEqual(['2', '4'])
+  })
+
+  it('handles empty input', () => {
+    expect(diffLines('', 'a')).toEqual([
+      { type: 'removed', text: '' },
+      { type: 'added', text: 'a' },
+    ])
+  })
+})
@@ -0,0 +1,90 @@
+import { Submission } from '../services/submissionService'
+
+export interface ProgressStats {
+  // Distinct problems with an accepted submission, by difficulty
+  solvedByDifficulty: Record<string, number>
+  totalSolved: number
+  totalSubmissions: number
+  // Accepted judged submissions over all judged submissions, 0 to 1
+  acceptanceRate: number
+  languages: { language: string, count: number }[]
+  // Submission count per local calendar day, keyed 'YYYY-MM-DD'
+  activity: Record<string, number>
+  // Consecutive days with a submission, ending today (or yesterday if nothing yet today)
+  currentStreak: number
+  longestStreak: number
+}
+
+export const toDayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+export const computeStats = (
+  submissions: Submission[],
+  difficulties: Record<string, string>,
+  today: Date = new Date()
+): ProgressStats => {
+  const solved = new Set<string>()
+  const languageCounts: Record<string, number> = {}
+  const activity: Record<string, number> = {}
+  let judged = 0
+  let accepted = 0
+
+  for (const submission of submissions) {
+    if (submission.verdict) {
+      judged++
+      if (submission.verdict === 'Accepted') {
+        accepted++
+        solved.add(submission.problemId)
+      }
+    }
+    languageCounts[submission.language] = (languageCounts[submission.language] || 0) + 1
+    const day = toDayKey(submission.createdAt)
+    activity[day] = (activity[day] || 0) + 1
+  }
+
+  const solvedByDifficulty: Record<string, number> = { Easy: 0, Medium: 0, Hard: 0 }
+  solved.forEach(problemId => {
+    const difficulty = difficulties[problemId]
+    if (difficulty) solvedByDifficulty[difficulty] = (solvedByDifficulty[difficulty] || 0) + 1
+  })
+
+  let currentStreak = 0
+  let day = activity[toDayKey(today)] ? today : addDays(today, -1)
+  while (activity[toDayKey(day)]) {
+    currentStreak++
+    day = addDays(day, -1)
+  }
+
+  let longestStreak = 0
+  let run = 0
+  let previous: Date | null = null
+  for (const key of Object.keys(activity).sort()) {
+    const [year, month, date] = key.split('-').map(Number)
+    const current = new Date(year, month - 1, date)
+    run = previous && toDayKey(addDays(previous, 1)) === key ? run + 1 : 1
+    longestStreak = Math.max(longestStreak, run)
+    previous = current
+  }
+
+  return {
+    solvedByDifficulty,
+    totalSolved: solved.size,
+    totalSubmissions: submissions.length,
+    acceptanceRate: judged > 0 ? accepted / judged : 0,
+    languages: Object.entries(languageCounts)
+      .map(([language, count]) => ({ language, count }))
+      .sort((a, b) => b.count - a.count),
+    activity,
+    currentStreak,
+    longestStreak,
+  }
+}
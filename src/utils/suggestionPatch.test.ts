@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { buildProposal, computeHunks, hunkToEdit, LineRange, looksLikeFullFile } from './suggestionPatch'
+
+const offsetOf = (text: string, lineNumber: number, column: number) =>
+  text.split('\n').slice(0, lineNumber - 1).reduce((sum, line) => sum + line.length + 1, 0) + column - 1
+
+// Applies edits the way Monaco's executeEdits does: every range refers to the original text
+const applyEdits = (text: string, edits: { range: LineRange, text: string }[]) =>
+  edits
+    .map(({ range, text: replacement }) => ({
+      start: offsetOf(text, range.startLineNumber, range.startColumn),
+      end: offsetOf(text, range.endLineNumber, range.endColumn),
+      replacement,
+    }))
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, { start, end, replacement }) => result.slice(0, start) + replacement + result.slice(end), text)
+
+const applyHunks = (current: string, proposed: string) =>
+  applyEdits(current, computeHunks(current, proposed).map(hunk => hunkToEdit(current, hunk)))
+
+describe('looksLikeFullFile', () => {
+  it('treats replies that keep most lines as the whole file', () => {
+    expect(looksLikeFullFile('a\nb\nc', 'a\nb\nc\nd')).toBe(true)
+    expect(looksLikeFullFile('a\nb\nc', 'x\ny')).toBe(false)
+    expect(looksLikeFullFile('  \n', 'x')).toBe(true)
+  })
+})
+
+describe('buildProposal', () => {
+  const current = 'line one\nline two\nline three\n'
+
+  it('replaces the selection', () => {
+    const selection = { startLineNumber: 2, startColumn: 6, endLineNumber: 2, endColumn: 9 }
+    expect(buildProposal(current, '2', selection, null)).toEqual({
+      proposed: 'line one\nline 2\nline three\n',
+      mode: 'replace-selection',
+    })
+  })
+
+  it('keeps the trailing newline of full-file answers', () => {
+    expect(buildProposal(current, 'line one\nline two\nline three\nline four', null, null)).toEqual({
+      proposed: 'line one\nline two\nline three\nline four\n',
+      mode: 'full-file',
+    })
+  })
+
+  it('inserts fragments at the cursor, or at the end without one', () => {
+    expect(buildProposal(current, 'x\n', null, { lineNumber: 2, column: 1 }).proposed)
+      .toBe('line one\nx\nline two\nline three\n')
+    expect(buildProposal(current, 'x', null, null)).toEqual({ proposed: `${current}x`, mode: 'insert' })
+  })
+})
+
+describe('computeHunks', () => {
+  it('groups contiguous changes', () => {
+    expect(computeHunks('a\nb\nc\nd', 'a\nB\nc\nd\ne')).toEqual([
+      { start: 1, end: 2, lines: ['B'], proposedLine: 2 },
+      { start: 4, end: 4, lines: ['e'], proposedLine: 5 },
+    ])
+  })
+
+  it('returns nothing for identical text', () => {
+    expect(computeHunks('a\nb', 'a\nb')).toEqual([])
+  })
+})
+
+describe('hunkToEdit', () => {
+  it.each([
+    ['changing a middle line', 'a\nb\nc', 'a\nB\nc'],
+    ['inserting lines', 'a\nc', 'a\nb1\nb2\nc'],
+    ['deleting lines', 'a\nb\nc\nd', 'a\nd'],
+    ['changing the first line', 'a\nb', 'A\nb'],
+    ['appending after the last line', 'a\nb', 'a\nb\nc\nd'],
+    ['changing the last line', 'a\nb', 'a\nB'],
+    ['deleting through the end', 'a\nb\nc', 'a'],
+    ['replacing everything', 'a\nb', 'x\ny\nz'],
+    ['several hunks at once', 'a\nb\nc\nd\ne', 'A\nb\nd\nE\nf'],
+    ['a trailing newline', 'a\nb\n', 'a\nB\nc\n'],
+  ])('reproduces the proposal when %s', (_, current, proposed) => {
+    expect(applyHunks(current, proposed)).toBe(proposed)
+  })
+
+  it('applies a subset of hunks independently', () => {
+    const current = 'a\nb\nc\nd'
+    const hunks = computeHunks(current, 'A\nb\nc\nD')
+    expect(hunks).toHaveLength(2)
+    expect(applyEdits(current, [hunkToEdit(current, hunks[1])])).toBe('a\nb\nc\nD')
+    expect(applyEdits(current, [hunkToEdit(current, hunks[0])])).toBe('A\nb\nc\nd')
+  })
+})
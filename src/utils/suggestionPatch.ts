@@ -0,0 +1,127 @@
+import { diffLines } from './lineDiff'
+
+// 1-based, shaped like Monaco's IRange so it can be passed to executeEdits as is
+export interface LineRange {
+  startLineNumber: number
+  startColumn: number
+  endLineNumber: number
+  endColumn: number
+}
+
+export interface Position {
+  lineNumber: number
+  column: number
+}
+
+// One contiguous change between the current file and the proposal
+export interface Hunk {
+  // 0-based lines [start, end) of the current file that are replaced
+  start: number
+  end: number
+  // The lines replacing them
+  lines: string[]
+  // 1-based line where the hunk begins in the proposal, for revealing it
+  proposedLine: number
+}
+
+export type ProposalMode = 'replace-selection' | 'full-file' | 'insert'
+
+export interface Proposal {
+  proposed: string
+  mode: ProposalMode
+}
+
+const offsetAt = (lines: string[], { lineNumber, column }: Position) =>
+  lines.slice(0, lineNumber - 1).reduce((sum, line) => sum + line.length + 1, 0) + column - 1
+
+const nonBlankLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean)
+
+// A reply is taken as the whole file when it keeps most of the current lines;
+// otherwise it is a fragment to insert
+export const looksLikeFullFile = (current: string, code: string) => {
+  const currentLines = nonBlankLines(current)
+  if (currentLines.length === 0) return true
+  const codeLines = new Set(nonBlankLines(code))
+  const kept = currentLines.filter(line => codeLines.has(line)).length
+  return kept / currentLines.length >= 0.6
+}
+
+// The file as it would be after applying the suggestion: replacing the
+// selection if there is one, the whole file for full-file answers, and
+// otherwise inserting at the cursor
+export const buildProposal = (
+  current: string,
+  code: string,
+  selection: LineRange | null,
+  cursor: Position | null
+): Proposal => {
+  const lines = current.split('\n')
+  if (selection) {
+    const start = offsetAt(lines, { lineNumber: selection.startLineNumber, column: selection.startColumn })
+    const end = offsetAt(lines, { lineNumber: selection.endLineNumber, column: selection.endColumn })
+    return { proposed: current.slice(0, start) + code + current.slice(end), mode: 'replace-selection' }
+  }
+  if (looksLikeFullFile(current, code)) {
+    // Keep the file's trailing newline, which models usually drop
+    const proposed = current.endsWith('\n') && !code.endsWith('\n') ? `${code}\n` : code
+    return { proposed, mode: 'full-file' }
+  }
+  const offset = cursor ? offsetAt(lines, cursor) : current.length
+  return { proposed: current.slice(0, offset) + code + current.slice(offset), mode: 'insert' }
+}
+
+export const computeHunks = (current: string, proposed: string): Hunk[] => {
+  const hunks: Hunk[] = []
+  let currentLine = 0
+  let proposedLine = 0
+  let hunk: Hunk | null = null
+  for (const line of diffLines(current, proposed)) {
+    if (line.type === 'same') {
+      hunk = null
+      currentLine++
+      proposedLine++
+      continue
+    }
+    if (!hunk) {
+      hunk = { start: currentLine, end: currentLine, lines: [], proposedLine: proposedLine + 1 }
+      hunks.push(hunk)
+    }
+    if (line.type === 'removed') {
+      hunk.end = ++currentLine
+    } else {
+      hunk.lines.push(line.text)
+      proposedLine++
+    }
+  }
+  return hunks
+}
+
+// The edit that applies one hunk to the current file. Hunks from one
+// computeHunks call never overlap, so any subset can be applied in one go.
+export const hunkToEdit = (current: string, { start, end, lines }: Hunk): { range: LineRange, text: string } => {
+  const currentLines = current.split('\n')
+  const lineCount = currentLines.length
+  const endOfLine = (idx: number) => ({ lineNumber: idx + 1, column: currentLines[idx].length + 1 })
+  const range = (from: Position, to: Position): LineRange => ({
+    startLineNumber: from.lineNumber,
+    startColumn: from.column,
+    endLineNumber: to.lineNumber,
+    endColumn: to.column,
+  })
+
+  if (end < lineCount) {
+    // Up to the start of the next unchanged line
+    const from = { lineNumber: start + 1, column: 1 }
+    return { range: range(from, { lineNumber: end + 1, column: 1 }), text: lines.map(line => `${line}\n`).join('') }
+  }
+  if (start === lineCount) {
+    // Appending after the last line
+    const last = endOfLine(lineCount - 1)
+    return { range: range(last, last), text: `\n${lines.join('\n')}` }
+  }
+  if (lines.length === 0 && start > 0) {
+    // Deleting through the end of the file also removes the newline before it
+    return { range: range(endOfLine(start - 1), endOfLine(lineCount - 1)), text: '' }
+  }
+  return { range: range({ lineNumber: start + 1, column: 1 }, endOfLine(lineCount - 1)), text: lines.join('\n') }
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -6,5 +7,16 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 3000,
+    // The API server in server/
+    proxy: {
+      '/api': {
+        target: 'http://localhost:8787',
+        rewrite: path => path.replace(/^\/api/, ''),
+      },
+    },
   },
-}) 
\ No newline at end of file
+  // The API server in server/ has its own tests
+  test: {
+    include: ['src/**/*.test.{ts,tsx}'],
+  },
+})